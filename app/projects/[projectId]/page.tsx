@@ -4,12 +4,59 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
 import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
-import { canvasToThumbnail, getPdfPageMetrics, loadPdfFromBlob } from "../../../lib/pdf";
+import {
+  canvasToThumbnail,
+  getPdfPageMetrics,
+  loadPdfFromBlob,
+  renderPageCanvas,
+  renderPageThumbnail
+} from "../../../lib/pdf";
+import { getPageTextLines, textLineOffsetAt, textLineSpan, type PageTextLine } from "../../../lib/pdf-text";
+import { findSizeSeries, valueForSize, type SizeValue } from "../../../lib/size-series";
+import {
+  getPageLinks,
+  getPdfOutline,
+  type PdfDestination,
+  type PdfLink,
+  type PdfOutlineItem
+} from "../../../lib/pdf-navigation";
+import { MAX_SEARCH_HITS, searchPageText } from "../../../lib/text-search";
+import { exportAnnotatedPdf } from "../../../lib/annotated-pdf";
+import {
+  capturePageRegion,
+  cropPage,
+  cropPages,
+  displayPageSize,
+  displayToPage,
+  displayYAtPageRatio,
+  findContentBox,
+  layoutPageBoxes,
+  pageRatioAtDisplayY,
+  pageToDisplay,
+  pageTransformFor,
+  resetPage,
+  rotatePage,
+  type PagePoint
+} from "../../../lib/page-transform";
+import {
+  combinedGlossary,
+  lookupGlossary,
+  mergeGlossary,
+  normalizeGlossaryTerm,
+  parseGlossaryLines,
+  searchGlossary,
+  wordAtOffset
+} from "../../../lib/glossary";
+import { advanceChecklist, nextChecklistLine, textLineAtPoint, toggleChecklistLine } from "../../../lib/checklist";
 import { blobToBase64 } from "../../../lib/convex-upload";
 import { normalizeWorkspace } from "../../../lib/workspace-utils";
 import {
   markCachedWorkspaceClean,
+  readCachedPageText,
+  readCachedPageThumbnails,
   readCachedProject,
+  writeCachedPageText,
+  writeCachedPageThumbnails,
   writeCachedProject,
   writeCachedWorkspace
 } from "../../../lib/local-db";
@@ -23,47 +70,195 @@ import {
   MAX_ZOOM,
   MIN_ZOOM,
   PAGE_LOOK_KEY,
+  DEFAULT_LAYER_ID,
   STROKE_PALETTE,
+  STROKE_TOOLS,
   type Annotation,
+  type AnnotationLayer,
+  type ChecklistState,
+  type SizeSelection,
+  type ConnectionMode,
   type CounterConnection,
+  type CounterEvent,
   type CounterType,
   type DrawTool,
   type DrawingTool,
   type GaugeCalculatorState,
+  type GlossaryEntry,
   type KnitCounter,
+  type KnitSession,
   type PageLook,
+  type PageCrop,
   type PageMetric,
+  type PageTransform,
   type ProjectRecord,
   type ProjectWorkspace,
   type ReferenceCapture,
   type ScrollAnchor,
+  type ShapingRule,
+  type ShapingRuleKind,
   type ViewerMode,
-  createDefaultGaugeCalculator
+  type StrokeDash,
+  type StrokeTool,
+  type ToolStyles,
+  createDefaultGaugeCalculator,
+  createDefaultLayers,
+  createDefaultToolStyles
 } from "../../../lib/project-types";
+import { annotationStrokeFields, strokeDashArray } from "../../../lib/stroke-style";
+import { arrowGeometry, checkmarkPoints, checkmarkStrokeWidth, isSegmentKind } from "../../../lib/shapes";
+import {
+  annotationLayerId,
+  isAnnotationEditable,
+  moveLayer,
+  visibleAnnotationsByLayer
+} from "../../../lib/layers";
 import { useStoredTheme } from "../../../lib/use-stored-theme";
+import { useKeyBindings } from "../../../lib/use-key-bindings";
+import { useCustomStamps } from "../../../lib/use-custom-stamps";
+import {
+  MAX_CUSTOM_STAMP_LENGTH,
+  chartSymbolById,
+  customStampCells,
+  searchChartSymbols,
+  searchCustomStamps
+} from "../../../lib/chart-symbols";
+import { useWorkspaceHistory, type EditableWorkspace } from "../../../lib/use-workspace-history";
+import {
+  DEFAULT_KEY_BINDINGS,
+  KEY_ACTIONS,
+  actionForKey,
+  assignKey,
+  formatKey,
+  keyFromEvent,
+  type KeyAction
+} from "../../../lib/key-bindings";
 import { ERASER_SCREEN_RADIUS, eraseAlongSegment } from "../../../lib/erase";
+import {
+  annotationBounds,
+  annotationsInLasso,
+  hitTestAnnotation,
+  resizeAnnotation,
+  resizeBounds,
+  translateAnnotation,
+  unionBounds,
+  type Point,
+  type Rect,
+  type ResizeHandle
+} from "../../../lib/annotation-geometry";
+import {
+  counterChangeEvents,
+  counterPosition,
+  counterTargetProgress,
+  describeConnection,
+  findLinkCycle,
+  findReachedTargets,
+  mergeCounterEvents,
+  propagateCounterChange,
+  undoLatestCounterChange,
+  withCounterPosition
+} from "../../../lib/counters";
+import {
+  continuesSession,
+  countersPerHour,
+  formatKnitDuration,
+  SESSION_IDLE_MS,
+  sessionDurationMs,
+  targetEtaMs
+} from "../../../lib/pace";
+import { parseShapingRows, shapingDueOnRow, shapingRuleRows, upcomingShapingEvents } from "../../../lib/shaping";
+import CounterGraph from "../../../components/editor/CounterGraph";
+import CounterHud from "../../../components/editor/CounterHud";
 import EditorChrome from "../../../components/editor/EditorChrome";
+import PageLayoutControls from "../../../components/editor/PageLayoutControls";
+import PageThumbnails, { type PageBadges } from "../../../components/editor/PageThumbnails";
 import ReferenceViewer from "../../../components/editor/ReferenceViewer";
+import StampGlyph from "../../../components/editor/StampGlyph";
 import Panel from "../../../components/ui/Panel";
 
-type AnnotateTool = DrawTool | "eraser";
+type AnnotateTool = DrawTool | "select" | "eraser";
 
 const ANNOTATE_TOOLS: { id: AnnotateTool; glyph: string; label: string }[] = [
+  { id: "select", glyph: "⬚", label: "Select" },
   { id: "rectangle", glyph: "▭", label: "Rectangle" },
   { id: "line", glyph: "╲", label: "Line" },
+  { id: "arrow", glyph: "↗", label: "Arrow" },
+  { id: "ellipse", glyph: "◯", label: "Ellipse" },
   { id: "highlight", glyph: "▤", label: "Highlight" },
   { id: "freeDraw", glyph: "✎", label: "Free draw" },
   { id: "text", glyph: "T", label: "Text" },
+  { id: "check", glyph: "✓", label: "Check" },
+  { id: "strike", glyph: "S̶", label: "Strike" },
+  { id: "stamp", glyph: "⊠", label: "Stamp" },
   { id: "eraser", glyph: "⌫", label: "Eraser" }
 ];
 
+// Widths for marks drawn before strokes had a style of their own.
+const LEGACY_STROKE_STYLES = createDefaultToolStyles();
+
+// Marks drawn in the page's SVG layer rather than as positioned boxes.
+const SVG_MARK_KINDS: DrawTool[] = ["freeDraw", "arrow", "ellipse", "check", "strike", "stamp"];
+
+// A tapped tick's size in page units; resize it with the select tool.
+const CHECK_SIZE = 28;
+// The height of a placed chart stamp (one chart cell) in page units.
+const STAMP_SIZE = 18;
+// How long a press on a word is held before its definition pops up.
+const GLOSSARY_PRESS_MS = 500;
+
+const STROKE_DASHES: { id: StrokeDash; label: string }[] = [
+  { id: "solid", label: "Solid" },
+  { id: "dashed", label: "Dashed" },
+  { id: "dotted", label: "Dotted" }
+];
+
+// How close (in screen pixels) a tap must land to a stroke to select it.
+const SELECT_SCREEN_TOLERANCE = 10;
+const RESIZE_HANDLES: ResizeHandle[] = ["nw", "ne", "sw", "se"];
+
 // iOS Safari caps a single canvas around 16.7M pixels; stay under it.
 const MAX_CANVAS_PIXELS = 16 * 1024 * 1024;
+// Pages within this distance of the viewport are painted ahead of scrolling;
+// the rest have their canvases released.
+const RENDER_ROOT_MARGIN = "150% 0px";
+// Deep zoom: when a whole page can't be painted at device resolution, the
+// page canvas drops to this smaller budget and the visible part is painted
+// sharp in tiles on top of it.
+const TILED_FALLBACK_CANVAS_PIXELS = 4 * 1024 * 1024;
+const TILE_CSS_SIZE = 512;
+// How far past the viewport tiles are painted, and how long scrolling has to
+// settle before the tile set is rebuilt.
+const TILE_MARGIN = 128;
+const TILE_SETTLE_MS = 120;
+// CSS width of a page in the page manager; drawn at up to twice that.
+const PAGE_THUMBNAIL_WIDTH = 120;
+// Pages that aren't on screen are drawn this wide to find their margins.
+const TRIM_RENDER_WIDTH = 600;
+
+// A visible part of a deep-zoomed page, in CSS pixels at `zoom`.
+type DetailTile = {
+  key: string;
+  pageIndex: number;
+  zoom: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
+function deviceScale(): number {
+  return Math.min(window.devicePixelRatio || 1, 3);
+}
+
+// Whether a page at this CSS size is too big to paint whole at device resolution.
+function needsTiles(cssWidth: number, cssHeight: number): boolean {
+  return Math.sqrt(MAX_CANVAS_PIXELS / (cssWidth * cssHeight)) < deviceScale();
+}
+
 function createId(prefix: string): string {
   return `${prefix}-${crypto.randomUUID()}`;
 }
@@ -158,8 +353,13 @@ function findOpenCounterPosition(
   return base;
 }
 
-function downloadProjectBackupFile(fileName: string, content: string): void {
-  const blob = new Blob([content], { type: "application/json" });
+function tapHaptic(pattern: number | number[] = 8): void {
+  if (typeof navigator !== "undefined" && typeof navigator.vibrate === "function") {
+    navigator.vibrate(pattern);
+  }
+}
+
+function downloadFile(fileName: string, blob: Blob): void {
   const url = URL.createObjectURL(blob);
   const anchor = document.createElement("a");
   anchor.href = url;
@@ -188,6 +388,55 @@ function parseCountInput(value: string): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
+type ShapingDraft = {
+  counterId: string;
+  label: string;
+  kind: ShapingRuleKind;
+  startRow: string;
+  every: string;
+  times: string;
+  rows: string;
+};
+
+const EMPTY_SHAPING_DRAFT: ShapingDraft = {
+  counterId: "",
+  label: "",
+  kind: "repeat",
+  startRow: "",
+  every: "",
+  times: "",
+  rows: ""
+};
+
+function buildShapingRule(draft: ShapingDraft, counterId: string): ShapingRule | null {
+  const base = {
+    id: createId("shaping"),
+    counterId,
+    label: draft.label.trim() || "Shaping",
+    kind: draft.kind
+  };
+  if (draft.kind === "rows") {
+    const rows = parseShapingRows(draft.rows);
+    return rows.length ? { ...base, startRow: rows[0], every: 1, times: rows.length, rows } : null;
+  }
+  const startRow = Math.floor(Number(draft.startRow));
+  const every = Math.floor(Number(draft.every));
+  const times = Math.floor(Number(draft.times));
+  if (!(startRow >= 1 && every >= 1 && times >= 1 && times <= 500)) {
+    return null;
+  }
+  return { ...base, startRow, every, times, rows: [] };
+}
+
+function formatCounterEventTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return new Intl.DateTimeFormat(
+    "en-US",
+    isToday ? { hour: "numeric", minute: "2-digit" } : { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }
+  ).format(date);
+}
+
 function formatConvertedCount(value: number): string {
   return new Intl.NumberFormat("en-US", {
     maximumFractionDigits: Math.abs(value - Math.round(value)) < 0.005 ? 0 : 2
@@ -207,19 +456,83 @@ export default function ProjectEditorPage({
   const saveWorkspaceMutation = useMutation(api.projects.saveWorkspace);
   const updatePageCountMutation = useMutation(api.projects.updatePageCount);
   const setThumbnailMutation = useMutation(api.projects.setThumbnail);
+  const { bindings: keyBindings, setBindings: setKeyBindings } = useKeyBindings();
+  const { stamps: customStamps, setStamps: setCustomStamps } = useCustomStamps();
+  const serverCounterEvents = useQuery(api.counterEvents.list, { projectId: params.projectId });
+  const recordCounterEventsMutation = useMutation(api.counterEvents.record);
+  const markCounterEventsUndoneMutation = useMutation(api.counterEvents.markUndone);
+  const serverKnitSessions = useQuery(api.knitSessions.list, { projectId: params.projectId });
+  const upsertKnitSessionMutation = useMutation(api.knitSessions.upsert);
   const [project, setProject] = useState<ProjectRecord | null>(null);
   const [projectStatus, setProjectStatus] = useState<"loading" | "ready" | "missing" | "error">("loading");
   const [saveStatus, setSaveStatus] = useState<"saved" | "saving" | "error">("saved");
   const [isOffline, setIsOffline] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
   const [pages, setPages] = useState<PageMetric[]>([]);
   const [zoom, setZoom] = useState(1.1);
   const [mode, setMode] = useState<ViewerMode>("pan");
   const [drawTool, setDrawTool] = useState<AnnotateTool>("rectangle");
   const [strokeColor, setStrokeColor] = useState(DEFAULT_STROKE_COLOR);
+  const [activeStampId, setActiveStampId] = useState("knit");
+  const [stampQuery, setStampQuery] = useState("");
+  const [customStampDraft, setCustomStampDraft] = useState("");
+  // What's typed into a counter's value field, until it's committed.
+  const [counterValueDrafts, setCounterValueDrafts] = useState<Record<string, string>>({});
+  const [toolStyles, setToolStyles] = useState<ToolStyles>(createDefaultToolStyles);
   const [highlights, setHighlights] = useState<Annotation[]>([]);
   const [anchors, setAnchors] = useState<ScrollAnchor[]>([]);
+  // The PDF's own bookmarks and in-document links; null until read.
+  const [pdfOutline, setPdfOutline] = useState<PdfOutlineItem[] | null>(null);
+  const [pageLinks, setPageLinks] = useState<Record<number, PdfLink[]>>({});
+  const pageLinksRef = useRef<Record<number, PdfLink[]>>({});
+  const [shapingRules, setShapingRules] = useState<ShapingRule[]>([]);
+  const [layers, setLayers] = useState<AnnotationLayer[]>(createDefaultLayers);
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_LAYER_ID);
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
+  const [layerColorPickerId, setLayerColorPickerId] = useState<string | null>(null);
+  const activeLayer = layers.find((layer) => layer.id === activeLayerId) ?? layers[layers.length - 1] ?? createDefaultLayers()[0];
+  const [checklist, setChecklist] = useState<ChecklistState>({ done: [], counterId: null });
+  const [size, setSize] = useState<SizeSelection>({ index: null, visible: true });
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [hiddenPages, setHiddenPages] = useState<number[]>([]);
+  const [pageTransforms, setPageTransforms] = useState<PageTransform[]>([]);
+  const [isPageLayoutOpen, setIsPageLayoutOpen] = useState(false);
+  const [isPickingCrop, setIsPickingCrop] = useState(false);
+  const [isTrimmingPages, setIsTrimmingPages] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isPickingGlossary, setIsPickingGlossary] = useState(false);
+  const [glossaryQuery, setGlossaryQuery] = useState("");
+  const [glossaryTermDraft, setGlossaryTermDraft] = useState("");
+  const [glossaryDefinitionDraft, setGlossaryDefinitionDraft] = useState("");
+  // The word long-pressed on a page, shown with its definition below it.
+  const [glossaryPopup, setGlossaryPopup] = useState<{
+    pageIndex: number;
+    x: number;
+    y: number;
+    word: string;
+  } | null>(null);
+  const glossaryPressRef = useRef<{ timer: number; clientX: number; clientY: number } | null>(null);
+  const [isSizeOpen, setIsSizeOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [activeSearchHitIndex, setActiveSearchHitIndex] = useState(0);
+  const [isPagesOpen, setIsPagesOpen] = useState(false);
+  // Page thumbnails for the page manager, drawn as they scroll into view.
+  const [pageThumbnails, setPageThumbnails] = useState<Record<number, string>>({});
+  const [thumbnailPageIndexes, setThumbnailPageIndexes] = useState<number[]>([]);
+  const pageThumbnailsRef = useRef(pageThumbnails);
+  const thumbnailCacheKeyRef = useRef<string | null>(null);
+  // Text lines per page index, read from the PDF once the checklist or size
+  // highlighting first needs them.
+  const [pageTextLines, setPageTextLines] = useState<Record<number, PageTextLine[]>>({});
+  const pageTextLinesRef = useRef(pageTextLines);
+  pageTextLinesRef.current = pageTextLines;
+  const checklistTapRef = useRef<{ clientX: number; clientY: number } | null>(null);
+  const [isShapingOpen, setIsShapingOpen] = useState(false);
+  const [shapingDraft, setShapingDraft] = useState<ShapingDraft>(EMPTY_SHAPING_DRAFT);
+  const [dismissedShapingKey, setDismissedShapingKey] = useState<string | null>(null);
   const [eraserCursor, setEraserCursor] = useState<{ pageIndex: number; x: number; y: number } | null>(null);
   const [isIndexPopoverOpen, setIsIndexPopoverOpen] = useState(false);
   const [editingAnchorId, setEditingAnchorId] = useState<string | null>(null);
@@ -227,6 +540,8 @@ export default function ProjectEditorPage({
   const [calculator, setCalculator] = useState<GaugeCalculatorState>(() => createDefaultGaugeCalculator());
   const [isSelectingReference, setIsSelectingReference] = useState(false);
   const [isReferencePopoverOpen, setIsReferencePopoverOpen] = useState(false);
+  // Both the reference crop and the glossary pick drag a box over the page.
+  const isSelectingRegion = isSelectingReference || isPickingGlossary || isPickingCrop;
   const [isCalculatorPopoverOpen, setIsCalculatorPopoverOpen] = useState(false);
   const [isZoomPopoverOpen, setIsZoomPopoverOpen] = useState(false);
   const [isToolsOpen, setIsToolsOpen] = useState(false);
@@ -234,6 +549,8 @@ export default function ProjectEditorPage({
   const [isMoreOpen, setIsMoreOpen] = useState(false);
   const [counters, setCounters] = useState<KnitCounter[]>([]);
   const [connections, setConnections] = useState<CounterConnection[]>([]);
+  const [counterEvents, setCounterEvents] = useState<CounterEvent[]>([]);
+  const [activeSession, setActiveSession] = useState<KnitSession | null>(null);
   const [pageLook, setPageLook] = useState<PageLook>("normal");
   const [toast, setToast] = useState<{
     message: string;
@@ -250,17 +567,27 @@ export default function ProjectEditorPage({
   const [editingCounterId, setEditingCounterId] = useState<string | null>(null);
   const [editingCounterTitle, setEditingCounterTitle] = useState("");
   const [focusCounterId, setFocusCounterId] = useState<string | null>(null);
+  const [detailCounterId, setDetailCounterId] = useState<string | null>(null);
+  const [isCounterGraphOpen, setIsCounterGraphOpen] = useState(false);
+  const [isKeysOpen, setIsKeysOpen] = useState(false);
+  const [capturingKeyAction, setCapturingKeyAction] = useState<KeyAction | null>(null);
   const [toolbarHeight, setToolbarHeight] = useState(64);
 
   const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
-  const renderTasksRef = useRef<Map<number, { cancel: () => void }>>(new Map());
+  // In-flight renders and the zoom each one paints at.
+  const renderTasksRef = useRef<Map<number, { cancel: () => void; zoom: number }>>(new Map());
+  // The zoom each page's canvas currently holds a paint for.
+  const renderedZoomsRef = useRef<Map<number, number>>(new Map());
+  const [nearPages, setNearPages] = useState<ReadonlySet<number>>(() => new Set());
+  const [detailTiles, setDetailTiles] = useState<DetailTile[]>([]);
+  const tileCanvasRefs = useRef<Map<string, HTMLCanvasElement>>(new Map());
+  const tileTasksRef = useRef<Map<string, { cancel: () => void }>>(new Map());
+  const paintedTilesRef = useRef<Set<string>>(new Set());
   const thumbnailSentRef = useRef(false);
   const pageRefs = useRef<(HTMLElement | null)[]>([]);
   const viewerRef = useRef<HTMLDivElement | null>(null);
   const pagesLayerRef = useRef<HTMLDivElement | null>(null);
   const nodeRefs = useRef<Record<string, HTMLElement | null>>({});
-  const counterUndoHistoryRef = useRef<Record<string, number[]>>({});
-  const textFormatUndoRef = useRef<Record<string, Array<{ fontSize: number; color: string }>>>({});
   const touchPointsRef = useRef<Map<number, { x: number; y: number }>>(new Map());
   const pinchStateRef = useRef<{
     startDistance: number;
@@ -325,6 +652,17 @@ export default function ProjectEditorPage({
     offsetX: number;
     offsetY: number;
   } | null>(null);
+  const [selectedAnnotationIds, setSelectedAnnotationIds] = useState<string[]>([]);
+  const [lasso, setLasso] = useState<{ pageIndex: number; points: Point[] } | null>(null);
+  // One gesture of the select tool. Originals are kept so every pointer move
+  // is applied to the annotations as they were when the gesture started.
+  const selectGestureRef = useRef<
+    | { kind: "move"; pageIndex: number; startX: number; startY: number; originals: Annotation[] }
+    | { kind: "resize"; pageIndex: number; handle: ResizeHandle; bounds: Rect; originals: Annotation[] }
+    | { kind: "endpoint"; pageIndex: number; end: "start" | "end"; original: Annotation }
+    | { kind: "lasso"; pageIndex: number; points: Point[]; additive: boolean }
+    | null
+  >(null);
   const [annotateScrollMax, setAnnotateScrollMax] = useState(0);
   const [annotateScrollValue, setAnnotateScrollValue] = useState(0);
   const connectDragRef = useRef<{
@@ -347,6 +685,10 @@ export default function ProjectEditorPage({
   const toolbarRef = useRef<HTMLElement>(null);
   const hydratedWorkspaceRef = useRef(false);
   const hydratedFromCacheRef = useRef(false);
+  const counterPositionsRef = useRef(new Map<string, number>());
+  const knitSessionRef = useRef<KnitSession | null>(null);
+  const knitSessionSyncedAtRef = useRef(0);
+  const knitSessionIdleTimeoutRef = useRef<number | null>(null);
   const latestWorkspaceRef = useRef({
     zoom,
     annotations: highlights,
@@ -354,8 +696,16 @@ export default function ProjectEditorPage({
     connections,
     referenceCapture,
     strokeColor,
+    toolStyles,
     calculator,
-    anchors
+    anchors,
+    shapingRules,
+    layers,
+    checklist,
+    size,
+    glossary,
+    hiddenPages,
+    pageTransforms
   });
 
   const cancelInProgressAnnotation = useCallback(() => {
@@ -407,8 +757,27 @@ export default function ProjectEditorPage({
     if (!viewer || !page) {
       return;
     }
-    setZoom(clamp((viewer.clientWidth - 28) / page.width, MIN_ZOOM, MAX_ZOOM));
-  }, [pages]);
+    const shown = displayPageSize(pageTransformFor(pageTransforms, 0), page);
+    setZoom(clamp((viewer.clientWidth - 28) / shown.width, MIN_ZOOM, MAX_ZOOM));
+  }, [pageTransforms, pages]);
+
+  // Where a pointer is on a page, in the unrotated, uncropped page units
+  // everything placed on a page is stored in.
+  const pointOnPage = useCallback(
+    (pageElement: HTMLElement, pageIndex: number, clientX: number, clientY: number): PagePoint => {
+      const rect = pageElement.getBoundingClientRect();
+      const point = { x: (clientX - rect.left) / zoom, y: (clientY - rect.top) / zoom };
+      const metric = pages[pageIndex];
+      return metric ? displayToPage(pageTransformFor(pageTransforms, pageIndex), metric, point) : point;
+    },
+    [pageTransforms, pages, zoom]
+  );
+
+  // The reverse: where a point in page units is on the page as shown.
+  function shownPoint(pageIndex: number, point: PagePoint): PagePoint {
+    const metric = pages[pageIndex];
+    return metric ? pageToDisplay(pageTransformFor(pageTransforms, pageIndex), metric, point) : point;
+  }
 
   function scrollToPage(pageIndex: number) {
     const viewer = viewerRef.current;
@@ -422,6 +791,22 @@ export default function ProjectEditorPage({
     viewer.scrollTo({ top: Math.max(0, target), behavior: "smooth" });
   }
 
+  // Brings a point on a page into view a little below the toolbar, and
+  // centred sideways when the page is wider than the viewer.
+  function scrollToPagePoint(pageIndex: number, x: number, y: number) {
+    const viewer = viewerRef.current;
+    const pageElement = pageRefs.current[pageIndex];
+    if (!viewer || !pageElement) {
+      return;
+    }
+    const viewerRect = viewer.getBoundingClientRect();
+    const rect = pageElement.getBoundingClientRect();
+    const shown = shownPoint(pageIndex, { x, y });
+    const top = rect.top - viewerRect.top + viewer.scrollTop + shown.y * zoom - (toolbarHeight + 96);
+    const left = rect.left - viewerRect.left + viewer.scrollLeft + shown.x * zoom - viewer.clientWidth / 2;
+    viewer.scrollTo({ top: Math.max(0, top), left: Math.max(0, left), behavior: "smooth" });
+  }
+
   useEffect(() => {
     // Offline, auth can't be confirmed against the server — stay put so the
     // cached copy of the project remains usable.
@@ -453,10 +838,68 @@ export default function ProjectEditorPage({
       connections,
       referenceCapture,
       strokeColor,
+      toolStyles,
       calculator,
-      anchors
+      anchors,
+      shapingRules,
+      layers,
+      checklist,
+      size,
+      glossary,
+      hiddenPages,
+      pageTransforms
     };
-  }, [anchors, calculator, connections, counters, highlights, referenceCapture, strokeColor, zoom]);
+  }, [
+    anchors,
+    calculator,
+    checklist,
+    connections,
+    counters,
+    glossary,
+    hiddenPages,
+    highlights,
+    layers,
+    pageTransforms,
+    referenceCapture,
+    shapingRules,
+    size,
+    strokeColor,
+    toolStyles,
+    zoom
+  ]);
+
+  const editableWorkspace = useMemo<EditableWorkspace>(
+    () => ({
+      annotations: highlights,
+      counters,
+      connections,
+      anchors,
+      referenceCapture,
+      calculator,
+      shapingRules,
+      layers,
+      checklist,
+      glossary,
+      hiddenPages,
+      pageTransforms
+    }),
+    [
+      anchors,
+      calculator,
+      checklist,
+      connections,
+      counters,
+      glossary,
+      hiddenPages,
+      highlights,
+      layers,
+      pageTransforms,
+      referenceCapture,
+      shapingRules
+    ]
+  );
+  const workspaceHistory = useWorkspaceHistory(editableWorkspace, restoreWorkspaceSnapshot);
+  const { reset: resetWorkspaceHistory } = workspaceHistory;
 
   const closeAllPanels = useCallback(() => {
     setIsToolsOpen(false);
@@ -466,6 +909,20 @@ export default function ProjectEditorPage({
     setIsCalculatorPopoverOpen(false);
     setIsReferencePopoverOpen(false);
     setIsMoreOpen(false);
+    setDetailCounterId(null);
+    setIsCounterGraphOpen(false);
+    setIsShapingOpen(false);
+    setIsKeysOpen(false);
+    setCapturingKeyAction(null);
+    setIsLayersOpen(false);
+    setLayerColorPickerId(null);
+    setIsSizeOpen(false);
+    setIsSearchOpen(false);
+    setIsGlossaryOpen(false);
+    setIsPickingGlossary(false);
+    setIsPagesOpen(false);
+    setIsPageLayoutOpen(false);
+    setIsPickingCrop(false);
   }, []);
 
   useEffect(() => {
@@ -502,23 +959,43 @@ export default function ProjectEditorPage({
         connections: workspace.connections,
         referenceCapture: workspace.referenceCapture,
         strokeColor: workspace.strokeColor,
+        toolStyles: workspace.toolStyles,
         calculator: workspace.calculator,
-        anchors: workspace.anchors
+        anchors: workspace.anchors,
+        shapingRules: workspace.shapingRules,
+        layers: workspace.layers,
+        checklist: workspace.checklist,
+        size: workspace.size,
+        glossary: workspace.glossary,
+        hiddenPages: workspace.hiddenPages,
+        pageTransforms: workspace.pageTransforms
       };
       setProject({ metadata, pdfBlob, workspace });
       setZoom(clamp(workspace.zoom, MIN_ZOOM, MAX_ZOOM));
       setStrokeColor(workspace.strokeColor);
+      setToolStyles(workspace.toolStyles);
       setHighlights(workspace.annotations);
       setCounters(workspace.counters.map((counter) => ({ ...counter })));
       setConnections(workspace.connections);
       setReferenceCapture(workspace.referenceCapture);
       setCalculator(workspace.calculator);
       setAnchors(workspace.anchors);
+      setShapingRules(workspace.shapingRules);
+      setLayers(workspace.layers);
+      setActiveLayerId(workspace.layers[workspace.layers.length - 1]?.id ?? DEFAULT_LAYER_ID);
+      setChecklist(workspace.checklist);
+      setSize(workspace.size);
+      setGlossary(workspace.glossary);
+      setHiddenPages(workspace.hiddenPages);
+      setPageTransforms(workspace.pageTransforms);
+      // Loaded values are where the knitter left off, not fresh progress.
+      counterPositionsRef.current = new Map();
+      resetWorkspaceHistory();
       setProjectStatus("ready");
       setSaveStatus("saved");
       hydratedWorkspaceRef.current = true;
     },
-    []
+    [resetWorkspaceHistory]
   );
 
   useEffect(() => {
@@ -784,7 +1261,26 @@ export default function ProjectEditorPage({
     return () => {
       window.clearTimeout(timeoutId);
     };
-  }, [anchors, calculator, connections, counters, highlights, project, referenceCapture, saveWorkspaceMutation, strokeColor, zoom]);
+  }, [
+    anchors,
+    calculator,
+    checklist,
+    connections,
+    counters,
+    glossary,
+    hiddenPages,
+    highlights,
+    layers,
+    pageTransforms,
+    project,
+    referenceCapture,
+    saveWorkspaceMutation,
+    shapingRules,
+    size,
+    strokeColor,
+    toolStyles,
+    zoom
+  ]);
 
   useEffect(() => {
     if (!project) {
@@ -847,6 +1343,119 @@ export default function ProjectEditorPage({
     };
   }, []);
 
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer || !pages.length) {
+      return;
+    }
+
+    const near = new Set<number>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        let changed = false;
+        for (const entry of entries) {
+          const pageIndex = pageRefs.current.indexOf(entry.target as HTMLElement);
+          if (pageIndex === -1 || entry.isIntersecting === near.has(pageIndex)) {
+            continue;
+          }
+          if (entry.isIntersecting) {
+            near.add(pageIndex);
+          } else {
+            near.delete(pageIndex);
+          }
+          changed = true;
+        }
+        if (changed) {
+          setNearPages(new Set(near));
+        }
+      },
+      { root: viewer, rootMargin: RENDER_ROOT_MARGIN }
+    );
+    for (let index = 0; index < pages.length; index += 1) {
+      const pageElement = pageRefs.current[index];
+      if (pageElement) {
+        observer.observe(pageElement);
+      }
+    }
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [pages.length, projectStatus]);
+
+  useEffect(() => {
+    // A new document or page layout invalidates every paint.
+    const renderTasks = renderTasksRef.current;
+    const renderedZooms = renderedZoomsRef.current;
+    const tileTasks = tileTasksRef.current;
+    const paintedTiles = paintedTilesRef.current;
+    return () => {
+      for (const task of [...renderTasks.values(), ...tileTasks.values()]) {
+        task.cancel();
+      }
+      renderTasks.clear();
+      renderedZooms.clear();
+      tileTasks.clear();
+      paintedTiles.clear();
+    };
+  }, [pdfDoc, pages]);
+
+  // Pages folded out of the reading flow are never painted, wherever they are.
+  const paintPages = useMemo(() => {
+    if (!hiddenPages.length) {
+      return nearPages;
+    }
+    const hidden = new Set(hiddenPages);
+    return new Set(Array.from(nearPages).filter((pageIndex) => !hidden.has(pageIndex)));
+  }, [hiddenPages, nearPages]);
+
+  const pageBoxes = useMemo(() => layoutPageBoxes(pages, pageTransforms, zoom), [pageTransforms, pages, zoom]);
+
+  useEffect(() => {
+    pageLinksRef.current = {};
+    setPageLinks({});
+    setPdfOutline(null);
+    if (!pdfDoc) {
+      return;
+    }
+    let cancelled = false;
+    getPdfOutline(pdfDoc)
+      .catch(() => [])
+      .then((items) => {
+        if (!cancelled) {
+          setPdfOutline(items);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDoc]);
+
+  // Links are read for the pages being painted, once per page.
+  useEffect(() => {
+    if (!pdfDoc) {
+      return;
+    }
+    const missing = Array.from(paintPages).filter((pageIndex) => !(pageIndex in pageLinksRef.current));
+    if (missing.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    void (async () => {
+      for (const pageIndex of missing) {
+        const links = await getPageLinks(pdfDoc, pageIndex).catch(() => []);
+        if (cancelled) {
+          return;
+        }
+        pageLinksRef.current = { ...pageLinksRef.current, [pageIndex]: links };
+        setPageLinks(pageLinksRef.current);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [paintPages, pdfDoc]);
+
   useEffect(() => {
     if (!pdfDoc || !pages.length) {
       return;
@@ -854,83 +1463,250 @@ export default function ProjectEditorPage({
 
     const doc = pdfDoc;
     const renderTasks = renderTasksRef.current;
+    const renderedZooms = renderedZoomsRef.current;
     let cancelled = false;
 
-    async function renderPages() {
-      for (let pageIndex = 0; pageIndex < pages.length; pageIndex += 1) {
-        const canvas = canvasRefs.current[pageIndex];
-        if (!canvas || cancelled) {
-          continue;
+    // Pages that scrolled out of range give their memory back. The page
+    // element keeps its size, so the layout doesn't move.
+    for (const [pageIndex, task] of renderTasks) {
+      if (!paintPages.has(pageIndex)) {
+        task.cancel();
+        renderTasks.delete(pageIndex);
+      }
+    }
+    for (const pageIndex of Array.from(renderedZooms.keys())) {
+      const canvas = canvasRefs.current[pageIndex];
+      if (!paintPages.has(pageIndex) && canvas) {
+        canvas.width = 0;
+        canvas.height = 0;
+        canvas.style.width = "";
+        canvas.style.height = "";
+        renderedZooms.delete(pageIndex);
+      }
+    }
+
+    // Nearest the page being read first, so what's on screen paints first.
+    const currentIndex = currentPageNumber - 1;
+    const queue = Array.from(paintPages)
+      .filter((pageIndex) => pageIndex < pages.length && renderedZooms.get(pageIndex) !== zoom)
+      .sort((left, right) => Math.abs(left - currentIndex) - Math.abs(right - currentIndex) || left - right);
+
+    async function renderPage(pageIndex: number) {
+      const canvas = canvasRefs.current[pageIndex];
+      const inFlight = renderTasks.get(pageIndex);
+      if (!canvas || (inFlight && inFlight.zoom === zoom)) {
+        return;
+      }
+
+      const page = await doc.getPage(pageIndex + 1);
+      const viewport = page.getViewport({ scale: zoom });
+      const context = canvas.getContext("2d");
+
+      if (!context || cancelled) {
+        return;
+      }
+
+      // Render at device resolution, but cap the backing store so extreme
+      // zoom levels stay within mobile canvas memory limits. Past the cap the
+      // page is only a backdrop for sharp tiles, so it takes less memory.
+      const budget = needsTiles(viewport.width, viewport.height) ? TILED_FALLBACK_CANVAS_PIXELS : MAX_CANVAS_PIXELS;
+      const budgetScale = Math.sqrt(budget / (viewport.width * viewport.height));
+      const outputScale = Math.max(0.25, Math.min(deviceScale(), budgetScale));
+
+      renderTasks.get(pageIndex)?.cancel();
+
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+
+      const task = page.render({
+        canvasContext: context,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      });
+      const entry = { cancel: () => task.cancel(), zoom };
+      renderTasks.set(pageIndex, entry);
+      try {
+        await task.promise;
+        renderedZooms.set(pageIndex, entry.zoom);
+        if (
+          pageIndex === 0 &&
+          !thumbnailSentRef.current &&
+          project &&
+          !project.metadata.thumbnailDataUrl
+        ) {
+          // First full paint of page 1 doubles as the library thumbnail.
+          const thumbnailDataUrl = canvasToThumbnail(canvas);
+          if (thumbnailDataUrl) {
+            thumbnailSentRef.current = true;
+            void setThumbnailMutation({
+              projectId: project.metadata.id,
+              thumbnailDataUrl
+            }).catch(() => {
+              thumbnailSentRef.current = false;
+            });
+          }
+        }
+      } catch {
+        // RenderingCancelledException: a newer render owns this canvas now,
+        // or the page left the render range.
+      } finally {
+        if (renderTasks.get(pageIndex) === entry) {
+          renderTasks.delete(pageIndex);
         }
+      }
+    }
 
-        const page = await doc.getPage(pageIndex + 1);
-        const viewport = page.getViewport({ scale: zoom });
-        const context = canvas.getContext("2d");
+    // One page at a time. A render already under way keeps going when the
+    // queue is rebuilt, so scrolling doesn't throw away half-painted pages.
+    void (async () => {
+      for (const pageIndex of queue) {
+        if (cancelled) {
+          return;
+        }
+        await renderPage(pageIndex);
+      }
+    })();
 
-        if (!context || cancelled) {
+    return () => {
+      cancelled = true;
+    };
+  }, [currentPageNumber, paintPages, pdfDoc, pages, zoom, project, setThumbnailMutation]);
+
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer || !pages.length) {
+      return;
+    }
+
+    let timeoutId: number | null = null;
+    const update = () => {
+      timeoutId = null;
+      const viewerRect = viewer.getBoundingClientRect();
+      const next: DetailTile[] = [];
+      for (const pageIndex of Array.from(paintPages).sort((left, right) => left - right)) {
+        const page = pages[pageIndex];
+        const pageElement = pageRefs.current[pageIndex];
+        const pageWidth = (page?.width ?? 0) * zoom;
+        const pageHeight = (page?.height ?? 0) * zoom;
+        if (!page || !pageElement || !needsTiles(pageWidth, pageHeight)) {
           continue;
         }
+        // What's in view of the page as shown, as a box on the unrotated page.
+        const rect = pageElement.getBoundingClientRect();
+        const view = pageTransformFor(pageTransforms, pageIndex);
+        const [from, to] = [
+          { x: viewerRect.left - rect.left - TILE_MARGIN, y: viewerRect.top - rect.top - TILE_MARGIN },
+          { x: viewerRect.right - rect.left + TILE_MARGIN, y: viewerRect.bottom - rect.top + TILE_MARGIN }
+        ].map((corner) => displayToPage(view, page, { x: corner.x / zoom, y: corner.y / zoom }));
+        const left = clamp(Math.min(from.x, to.x) * zoom, 0, pageWidth);
+        const right = clamp(Math.max(from.x, to.x) * zoom, 0, pageWidth);
+        const top = clamp(Math.min(from.y, to.y) * zoom, 0, pageHeight);
+        const bottom = clamp(Math.max(from.y, to.y) * zoom, 0, pageHeight);
+        for (let row = Math.floor(top / TILE_CSS_SIZE); row * TILE_CSS_SIZE < bottom; row += 1) {
+          for (let col = Math.floor(left / TILE_CSS_SIZE); col * TILE_CSS_SIZE < right; col += 1) {
+            const x = col * TILE_CSS_SIZE;
+            const y = row * TILE_CSS_SIZE;
+            next.push({
+              key: `${pageIndex}:${zoom}:${col}:${row}`,
+              pageIndex,
+              zoom,
+              x,
+              y,
+              width: Math.min(TILE_CSS_SIZE, pageWidth - x),
+              height: Math.min(TILE_CSS_SIZE, pageHeight - y)
+            });
+          }
+        }
+      }
+      setDetailTiles((prev) =>
+        prev.length === next.length && prev.every((tile, index) => tile.key === next[index].key) ? prev : next
+      );
+    };
+    const schedule = () => {
+      if (timeoutId !== null) {
+        window.clearTimeout(timeoutId);
+      }
+      timeoutId = window.setTimeout(update, TILE_SETTLE_MS);
+    };
 
-        // Render at device resolution, but cap the backing store so extreme
-        // zoom levels stay within mobile canvas memory limits.
-        const devicePixelRatio = Math.min(window.devicePixelRatio || 1, 3);
-        const budgetScale = Math.sqrt(MAX_CANVAS_PIXELS / (viewport.width * viewport.height));
-        const outputScale = Math.max(0.25, Math.min(devicePixelRatio, budgetScale));
+    schedule();
+    viewer.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      if (timeoutId !== null) {
+        window.clearTimeout(timeoutId);
+      }
+      viewer.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [pageTransforms, paintPages, pages, zoom]);
 
-        renderTasks.get(pageIndex)?.cancel();
+  useEffect(() => {
+    if (!pdfDoc) {
+      return;
+    }
 
-        canvas.width = Math.floor(viewport.width * outputScale);
-        canvas.height = Math.floor(viewport.height * outputScale);
-        canvas.style.width = `${viewport.width}px`;
-        canvas.style.height = `${viewport.height}px`;
+    const doc = pdfDoc;
+    const tileTasks = tileTasksRef.current;
+    const paintedTiles = paintedTilesRef.current;
+    const keys = new Set(detailTiles.map((tile) => tile.key));
+    for (const [key, task] of tileTasks) {
+      if (!keys.has(key)) {
+        task.cancel();
+        tileTasks.delete(key);
+      }
+    }
+    for (const key of Array.from(paintedTiles)) {
+      if (!keys.has(key)) {
+        paintedTiles.delete(key);
+      }
+    }
 
+    let cancelled = false;
+    void (async () => {
+      for (const tile of detailTiles) {
+        const canvas = tileCanvasRefs.current.get(tile.key);
+        if (cancelled) {
+          return;
+        }
+        if (!canvas || paintedTiles.has(tile.key) || tileTasks.has(tile.key)) {
+          continue;
+        }
+        const page = await doc.getPage(tile.pageIndex + 1);
+        const context = canvas.getContext("2d");
+        if (!context || cancelled) {
+          return;
+        }
+        // The tile is a window onto the page: the same render, shifted so
+        // only this region lands on the canvas.
+        const scale = deviceScale();
+        canvas.width = Math.ceil(tile.width * scale);
+        canvas.height = Math.ceil(tile.height * scale);
         const task = page.render({
           canvasContext: context,
-          viewport,
-          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+          viewport: page.getViewport({ scale: tile.zoom }),
+          transform: [scale, 0, 0, scale, -tile.x * scale, -tile.y * scale]
         });
-        renderTasks.set(pageIndex, task);
+        tileTasks.set(tile.key, task);
         try {
           await task.promise;
-          if (
-            pageIndex === 0 &&
-            !cancelled &&
-            !thumbnailSentRef.current &&
-            project &&
-            !project.metadata.thumbnailDataUrl
-          ) {
-            // First full paint of page 1 doubles as the library thumbnail.
-            const thumbnailDataUrl = canvasToThumbnail(canvas);
-            if (thumbnailDataUrl) {
-              thumbnailSentRef.current = true;
-              void setThumbnailMutation({
-                projectId: project.metadata.id,
-                thumbnailDataUrl
-              }).catch(() => {
-                thumbnailSentRef.current = false;
-              });
-            }
-          }
+          paintedTiles.add(tile.key);
         } catch {
-          // RenderingCancelledException: a newer render owns this canvas now.
+          // Cancelled: the tile scrolled away or the zoom changed.
         } finally {
-          if (renderTasks.get(pageIndex) === task) {
-            renderTasks.delete(pageIndex);
+          if (tileTasks.get(tile.key) === task) {
+            tileTasks.delete(tile.key);
           }
         }
       }
-    }
-
-    renderPages();
+    })();
 
     return () => {
       cancelled = true;
-      for (const task of renderTasks.values()) {
-        task.cancel();
-      }
-      renderTasks.clear();
     };
-  }, [pdfDoc, pages, zoom, project, setThumbnailMutation]);
+  }, [detailTiles, pdfDoc]);
 
   const captureReferenceImage = useCallback((
     pageIndex: number,
@@ -945,28 +1721,39 @@ export default function ProjectEditorPage({
       return null;
     }
 
-    const scaleX = sourceCanvas.width / pageMetric.width;
-    const scaleY = sourceCanvas.height / pageMetric.height;
-    const sx = Math.max(0, Math.floor(x * scaleX));
-    const sy = Math.max(0, Math.floor(y * scaleY));
-    const sw = Math.max(1, Math.floor(width * scaleX));
-    const sh = Math.max(1, Math.floor(height * scaleY));
-
-    const scale = Math.min(1, MAX_REFERENCE_IMAGE_DIM / Math.max(sw, sh));
-    const tw = Math.max(1, Math.floor(sw * scale));
-    const th = Math.max(1, Math.floor(sh * scale));
-
-    const target = document.createElement("canvas");
-    target.width = tw;
-    target.height = th;
-    const context = target.getContext("2d");
-    if (!context) {
-      return null;
-    }
-
-    context.drawImage(sourceCanvas, sx, sy, sw, sh, 0, 0, tw, th);
-    return target.toDataURL("image/jpeg", 0.78);
-  }, [pages]);
+    const rotation = pageTransformFor(pageTransforms, pageIndex)?.rotation ?? 0;
+    const capture = capturePageRegion(sourceCanvas, pageMetric, { x, y, width, height }, rotation, MAX_REFERENCE_IMAGE_DIM);
+    return capture ? capture.toDataURL("image/jpeg", 0.78) : null;
+  }, [pageTransforms, pages]);
+
+  // Every way of adding or retargeting a link goes through here, so a link
+  // that would loop back on itself is refused with the loop spelled out.
+  const linkCounters = useCallback(
+    (fromCounterId: string, toCounterId: string, replaceConnectionId?: string): boolean => {
+      const others = connections.filter((item) => item.id !== replaceConnectionId);
+      if (others.some((item) => item.fromCounterId === fromCounterId && item.toCounterId === toCounterId)) {
+        return false;
+      }
+      const cycle = findLinkCycle(others, fromCounterId, toCounterId);
+      if (cycle) {
+        const labels = cycle.map((id) => counters.find((counter) => counter.id === id)?.label ?? "Counter");
+        showToast(
+          fromCounterId === toCounterId
+            ? `${labels[0]} can't advance itself.`
+            : `Can't link ${labels[0]} → ${labels[1]}: it would loop ${labels.join(" → ")}.`,
+          { duration: 7000 }
+        );
+        return false;
+      }
+      setConnections((prev) =>
+        replaceConnectionId
+          ? prev.map((item) => (item.id === replaceConnectionId ? { ...item, fromCounterId, toCounterId } : item))
+          : [...prev, { id: createId("conn"), fromCounterId, toCounterId }]
+      );
+      return true;
+    },
+    [connections, counters, showToast]
+  );
 
   useEffect(() => {
     function handlePointerMove(event: PointerEvent) {
@@ -982,13 +1769,15 @@ export default function ProjectEditorPage({
         if (!pageElement || !pageMetric) {
           return;
         }
-        const rect = pageElement.getBoundingClientRect();
-        const x = clamp((event.clientX - rect.left) / zoom, 0, pageMetric.width);
-        const y = clamp((event.clientY - rect.top) / zoom, 0, pageMetric.height);
+        const point = pointOnPage(pageElement, erasing.pageIndex, event.clientX, event.clientY);
+        const x = clamp(point.x, 0, pageMetric.width);
+        const y = clamp(point.y, 0, pageMetric.height);
         const radius = ERASER_SCREEN_RADIUS / zoom;
         setEraserCursor({ pageIndex: erasing.pageIndex, x, y });
         setHighlights((prev) => {
-          const result = eraseAlongSegment(prev, erasing.pageIndex, erasing.lastX, erasing.lastY, x, y, radius);
+          const result = eraseAlongSegment(prev, erasing.pageIndex, erasing.lastX, erasing.lastY, x, y, radius, (item) =>
+            isAnnotationEditable(item, layers)
+          );
           return result.changed ? result.annotations : prev;
         });
         erasingRef.current = { pageIndex: erasing.pageIndex, lastX: x, lastY: y };
@@ -997,7 +1786,7 @@ export default function ProjectEditorPage({
 
       const drawing = drawingRef.current;
       if (drawing) {
-        if (mode !== "highlight" && !isSelectingReference) {
+        if (mode !== "highlight" && !isSelectingRegion) {
           cancelInProgressAnnotation();
           return;
         }
@@ -1007,11 +1796,11 @@ export default function ProjectEditorPage({
           return;
         }
 
-        const rect = pageElement.getBoundingClientRect();
-        const x = clamp((event.clientX - rect.left) / zoom, 0, pages[drawing.pageIndex]?.width ?? 0);
-        const y = clamp((event.clientY - rect.top) / zoom, 0, pages[drawing.pageIndex]?.height ?? 0);
+        const point = pointOnPage(pageElement, drawing.pageIndex, event.clientX, event.clientY);
+        const x = clamp(point.x, 0, pages[drawing.pageIndex]?.width ?? 0);
+        const y = clamp(point.y, 0, pages[drawing.pageIndex]?.height ?? 0);
 
-        if (drawing.tool === "reference") {
+        if (drawing.tool === "reference" || drawing.tool === "glossary" || drawing.tool === "crop") {
           const startX = Math.min(drawing.startX, x);
           const startY = Math.min(drawing.startY, y);
           setDraftReferenceRect({
@@ -1024,7 +1813,7 @@ export default function ProjectEditorPage({
           return;
         }
 
-        if (drawing.tool === "rectangle" || drawing.tool === "highlight") {
+        if (drawing.tool === "rectangle" || drawing.tool === "ellipse" || drawing.tool === "highlight") {
           const startX = Math.min(drawing.startX, x);
           const startY = Math.min(drawing.startY, y);
 
@@ -1036,23 +1825,27 @@ export default function ProjectEditorPage({
             y: startY,
             width: Math.abs(x - drawing.startX),
             height: Math.abs(y - drawing.startY),
-            color: drawing.tool === "rectangle" ? strokeColor : undefined
+            ...(drawing.tool === "highlight"
+              ? {}
+              : { color: strokeColor, ...annotationStrokeFields(toolStyles[drawing.tool]) })
           });
           return;
         }
 
-        if (drawing.tool === "line") {
+        if (drawing.tool === "line" || drawing.tool === "arrow" || drawing.tool === "strike") {
           setDraftHighlight({
             id: "draft",
-            kind: "line",
+            kind: drawing.tool,
             pageIndex: drawing.pageIndex,
             x: drawing.startX,
             y: drawing.startY,
             width: 0,
             height: 0,
             x2: x,
-            y2: y,
-            color: strokeColor
+            // Strike-throughs run along the row they start on.
+            y2: drawing.tool === "strike" ? drawing.startY : y,
+            color: strokeColor,
+            ...annotationStrokeFields(toolStyles[drawing.tool])
           });
           return;
         }
@@ -1072,13 +1865,53 @@ export default function ProjectEditorPage({
               width: 0,
               height: 0,
               points: nextPoints,
-              color: strokeColor
+              color: strokeColor,
+              ...annotationStrokeFields(toolStyles.freeDraw)
             });
           }
         }
         return;
       }
 
+      const gesture = selectGestureRef.current;
+      if (gesture) {
+        event.preventDefault();
+        const pageElement = pageRefs.current[gesture.pageIndex];
+        const pageMetric = pages[gesture.pageIndex];
+        if (!pageElement || !pageMetric) {
+          return;
+        }
+        const point = pointOnPage(pageElement, gesture.pageIndex, event.clientX, event.clientY);
+        const x = clamp(point.x, 0, pageMetric.width);
+        const y = clamp(point.y, 0, pageMetric.height);
+
+        if (gesture.kind === "lasso") {
+          const points = [...gesture.points, { x, y }];
+          selectGestureRef.current = { ...gesture, points };
+          setLasso({ pageIndex: gesture.pageIndex, points });
+          return;
+        }
+
+        let updated: Annotation[];
+        if (gesture.kind === "move") {
+          // Keep the whole selection on the page.
+          const bounds = unionBounds(gesture.originals.map(annotationBounds));
+          const dx = bounds ? clamp(x - gesture.startX, -bounds.x, pageMetric.width - bounds.x - bounds.width) : 0;
+          const dy = bounds ? clamp(y - gesture.startY, -bounds.y, pageMetric.height - bounds.y - bounds.height) : 0;
+          updated = gesture.originals.map((item) => translateAnnotation(item, dx, dy));
+        } else if (gesture.kind === "resize") {
+          const next = resizeBounds(gesture.bounds, gesture.handle, x, y, 6);
+          updated = gesture.originals.map((item) => resizeAnnotation(item, gesture.bounds, next));
+        } else {
+          updated = [
+            gesture.end === "start" ? { ...gesture.original, x, y } : { ...gesture.original, x2: x, y2: y }
+          ];
+        }
+        const byId = new Map(updated.map((item) => [item.id, item]));
+        setHighlights((prev) => prev.map((item) => byId.get(item.id) ?? item));
+        return;
+      }
+
       const drag = draggingCounterRef.current;
       if (drag) {
         const pageElement = pageRefs.current[drag.pageIndex];
@@ -1087,9 +1920,9 @@ export default function ProjectEditorPage({
           return;
         }
 
-        const rect = pageElement.getBoundingClientRect();
-        const rawX = (event.clientX - rect.left) / zoom - drag.offsetX;
-        const rawY = (event.clientY - rect.top) / zoom - drag.offsetY;
+        const point = pointOnPage(pageElement, drag.pageIndex, event.clientX, event.clientY);
+        const rawX = point.x - drag.offsetX;
+        const rawY = point.y - drag.offsetY;
         const viewerWidth = viewerRef.current?.clientWidth ?? pageMetric.width * zoom;
         const bounds = getCounterBounds(pageMetric, viewerWidth, zoom);
         const clamped = clampCounterPosition(rawX, rawY, bounds);
@@ -1119,9 +1952,9 @@ export default function ProjectEditorPage({
           return;
         }
 
-        const rect = pageElement.getBoundingClientRect();
-        const rawX = (event.clientX - rect.left) / zoom - textDrag.offsetX;
-        const rawY = (event.clientY - rect.top) / zoom - textDrag.offsetY;
+        const point = pointOnPage(pageElement, textDrag.pageIndex, event.clientX, event.clientY);
+        const rawX = point.x - textDrag.offsetX;
+        const rawY = point.y - textDrag.offsetY;
         const clampedX = clamp(rawX, 0, pageMetric.width - 10);
         const clampedY = clamp(rawY, 0, pageMetric.height - 10);
 
@@ -1143,9 +1976,9 @@ export default function ProjectEditorPage({
           return;
         }
 
-        const rect = pageElement.getBoundingClientRect();
-        const endX = clamp((event.clientX - rect.left) / zoom, 0, pageMetric.width);
-        const endY = clamp((event.clientY - rect.top) / zoom, 0, pageMetric.height);
+        const point = pointOnPage(pageElement, connecting.pageIndex, event.clientX, event.clientY);
+        const endX = clamp(point.x, 0, pageMetric.width);
+        const endY = clamp(point.y, 0, pageMetric.height);
         setDraftConnection({
           pageIndex: connecting.pageIndex,
           startX: connecting.startX,
@@ -1177,8 +2010,22 @@ export default function ProjectEditorPage({
         return;
       }
 
+      const gesture = selectGestureRef.current;
+      if (gesture) {
+        selectGestureRef.current = null;
+        if (gesture.kind === "lasso") {
+          const editable = highlights.filter((item) => isAnnotationEditable(item, layers));
+          const picked = annotationsInLasso(editable, gesture.pageIndex, gesture.points).map((item) => item.id);
+          setSelectedAnnotationIds((prev) =>
+            gesture.additive ? Array.from(new Set([...prev, ...picked])) : picked
+          );
+          setLasso(null);
+        }
+        return;
+      }
+
       const drawing = drawingRef.current;
-      if (drawing && mode !== "highlight" && !isSelectingReference) {
+      if (drawing && mode !== "highlight" && !isSelectingRegion) {
         cancelInProgressAnnotation();
         draggingCounterRef.current = null;
         draggingTextRef.current = null;
@@ -1205,27 +2052,76 @@ export default function ProjectEditorPage({
         setIsReferencePopoverOpen(true);
       }
 
+      if (drawing?.tool === "glossary" && draftReferenceRect) {
+        const box = draftReferenceRect;
+        const lines = pageTextLinesRef.current[box.pageIndex];
+        const entries = parseGlossaryLines(
+          (lines ?? []).filter(
+            (line) =>
+              line.x < box.x + box.width &&
+              line.x + line.width > box.x &&
+              line.y + line.height / 2 >= box.y &&
+              line.y + line.height / 2 <= box.y + box.height
+          )
+        );
+        setIsPickingGlossary(false);
+        setIsGlossaryOpen(true);
+        if (entries.length > 0) {
+          setGlossary((prev) => mergeGlossary(prev, entries));
+          showToast(`Added ${entries.length} ${entries.length === 1 ? "abbreviation" : "abbreviations"} from the pattern.`);
+        } else {
+          showToast(
+            lines
+              ? "No abbreviations found in that box. Drag over the pattern's abbreviations list, or add them by hand."
+              : "Still reading this page's text. Try again in a moment."
+          );
+        }
+      }
+
+      if (drawing?.tool === "crop" && draftReferenceRect && draftReferenceRect.width > 12 && draftReferenceRect.height > 12) {
+        const { pageIndex, x, y, width, height } = draftReferenceRect;
+        setPageTransforms((prev) => cropPage(prev, pageIndex, { x, y, width, height }));
+        setIsPickingCrop(false);
+        setIsPageLayoutOpen(true);
+      }
+
       if (
-        (drawing?.tool === "rectangle" || drawing?.tool === "highlight") &&
+        (drawing?.tool === "rectangle" || drawing?.tool === "ellipse" || drawing?.tool === "highlight") &&
         draftHighlight &&
         draftHighlight.width > 10 &&
         draftHighlight.height > 10
       ) {
-        setHighlights((prev) => [...prev, { ...draftHighlight, id: createId("hl"), kind: draftHighlight.kind }]);
-      }
+        setHighlights((prev) => [
+          ...prev,
+          { ...draftHighlight, id: createId("hl"), kind: draftHighlight.kind, layerId: activeLayer.id }
+        ]);
+      }
 
-      if (drawing?.tool === "line" && draftHighlight?.kind === "line") {
+      if (
+        drawing &&
+        drawing.tool !== "reference" &&
+        drawing.tool !== "glossary" &&
+        drawing.tool !== "crop" &&
+        isSegmentKind(drawing.tool) &&
+        draftHighlight?.kind === drawing.tool
+      ) {
         const lineLength = Math.hypot(
           (draftHighlight.x2 ?? draftHighlight.x) - draftHighlight.x,
           (draftHighlight.y2 ?? draftHighlight.y) - draftHighlight.y
         );
         if (lineLength > 8) {
-          setHighlights((prev) => [...prev, { ...draftHighlight, id: createId("hl"), kind: "line" }]);
+          setHighlights((prev) => [
+            ...prev,
+            { ...draftHighlight, id: createId("hl"), layerId: activeLayer.id }
+          ]);
         }
       }
 
       if (drawing?.tool === "freeDraw" && draftFreeDraw?.points && draftFreeDraw.points.length > 1) {
-        setHighlights((prev) => [...prev, { ...draftFreeDraw, id: createId("hl"), kind: "freeDraw" }]);
+        setHighlights((prev) => [
+          ...prev,
+          { ...draftFreeDraw, id: createId("hl"), kind: "freeDraw", layerId: activeLayer.id }
+        ]);
       }
 
       drawingRef.current = null;
@@ -1240,19 +2136,7 @@ export default function ProjectEditorPage({
         const inputNode = target?.closest("[data-node-role='input']") as HTMLElement | null;
         const toCounterId = inputNode?.dataset.counterId;
         if (toCounterId && toCounterId !== connecting.fromCounterId) {
-          setConnections((prev) => {
-            if (prev.some((item) => item.fromCounterId === connecting.fromCounterId && item.toCounterId === toCounterId)) {
-              return prev;
-            }
-            return [
-              ...prev,
-              {
-                id: createId("conn"),
-                fromCounterId: connecting.fromCounterId,
-                toCounterId
-              }
-            ];
-          });
+          linkCounters(connecting.fromCounterId, toCounterId);
         }
         connectDragRef.current = null;
         setDraftConnection(null);
@@ -1268,10 +2152,10 @@ export default function ProjectEditorPage({
       window.removeEventListener("pointermove", handlePointerMove);
       window.removeEventListener("pointerup", handlePointerUp);
     };
-  }, [cancelInProgressAnnotation, captureReferenceImage, counters, draftFreeDraw, draftHighlight, draftReferenceRect, isSelectingReference, mode, pages, strokeColor, zoom]);
+  }, [activeLayer.id, cancelInProgressAnnotation, captureReferenceImage, counters, draftFreeDraw, draftHighlight, draftReferenceRect, highlights, isSelectingRegion, layers, linkCounters, mode, pages, pointOnPage, showToast, strokeColor, toolStyles, zoom]);
 
   useEffect(() => {
-    if (mode === "highlight" || isSelectingReference) {
+    if (mode === "highlight" || isSelectingRegion) {
       return;
     }
     cancelInProgressAnnotation();
@@ -1279,7 +2163,7 @@ export default function ProjectEditorPage({
     setDraftConnection(null);
     setConnectingFromCounterId(null);
     setConnectTargetCounterId(null);
-  }, [cancelInProgressAnnotation, isSelectingReference, mode]);
+  }, [cancelInProgressAnnotation, isSelectingRegion, mode]);
 
   useEffect(() => {
     if (mode !== "highlight") {
@@ -1340,6 +2224,34 @@ export default function ProjectEditorPage({
     setConnections((prev) => prev.filter((edge) => ids.has(edge.fromCounterId) && ids.has(edge.toCounterId)));
   }, [counters]);
 
+  const flushKnitSession = useCallback(() => {
+    const session = knitSessionRef.current;
+    if (!session) {
+      return;
+    }
+    knitSessionSyncedAtRef.current = Date.now();
+    void upsertKnitSessionMutation({ projectId: params.projectId, session }).catch(() => undefined);
+  }, [params.projectId, upsertKnitSessionMutation]);
+
+  useEffect(() => {
+    // Closing the tab mid-session still records the time knit so far.
+    window.addEventListener("pagehide", flushKnitSession);
+    return () => {
+      window.removeEventListener("pagehide", flushKnitSession);
+      if (knitSessionIdleTimeoutRef.current !== null) {
+        window.clearTimeout(knitSessionIdleTimeoutRef.current);
+        knitSessionIdleTimeoutRef.current = null;
+      }
+      flushKnitSession();
+    };
+  }, [flushKnitSession]);
+
+  useEffect(() => {
+    if (serverCounterEvents) {
+      setCounterEvents((prev) => mergeCounterEvents(prev, serverCounterEvents));
+    }
+  }, [serverCounterEvents]);
+
   useEffect(() => {
     // One-time nudge toward the app's least discoverable feature.
     if (counters.length !== 2 || connections.length > 0 || !hydratedWorkspaceRef.current) {
@@ -1354,6 +2266,13 @@ export default function ProjectEditorPage({
     });
   }, [counters.length, connections.length, showToast]);
 
+  useEffect(() => {
+    if (mode !== "highlight" || drawTool !== "select") {
+      setSelectedAnnotationIds([]);
+      setLasso(null);
+    }
+  }, [drawTool, mode]);
+
   useEffect(() => {
     function isEditableTarget(target: EventTarget | null): boolean {
       const element = target as HTMLElement | null;
@@ -1363,7 +2282,7 @@ export default function ProjectEditorPage({
       return element.tagName === "INPUT" || element.tagName === "TEXTAREA" || element.isContentEditable;
     }
 
-    function onUndoHighlightHotkey(event: KeyboardEvent) {
+    function onHistoryHotkey(event: KeyboardEvent) {
       // While typing, leave keys to the field (native text undo, per-field Escape handling).
       if (isEditableTarget(event.target)) {
         return;
@@ -1372,27 +2291,121 @@ export default function ProjectEditorPage({
       if (event.key === "Escape") {
         setSelectedTextAnnotationId(null);
         setEditingTextAnnotationId(null);
+        setSelectedAnnotationIds([]);
+        return;
+      }
+
+      if ((event.key === "Delete" || event.key === "Backspace") && selectedAnnotationIds.length > 0) {
+        event.preventDefault();
+        deleteSelectedAnnotations();
+        return;
+      }
+
+      if (!(event.ctrlKey || event.metaKey)) {
         return;
       }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undoWorkspace();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redoWorkspace();
+      }
+    }
+
+    window.addEventListener("keydown", onHistoryHotkey);
+    return () => {
+      window.removeEventListener("keydown", onHistoryHotkey);
+    };
+  });
 
-      const isUndo = (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z";
-      if (!isUndo) {
+  useEffect(() => {
+    // A long-press is cancelled by lifting early or by moving (scrolling).
+    function cancelPress(event: PointerEvent) {
+      const press = glossaryPressRef.current;
+      if (!press) {
+        return;
+      }
+      if (event.type === "pointermove" && Math.hypot(event.clientX - press.clientX, event.clientY - press.clientY) <= 8) {
         return;
       }
+      window.clearTimeout(press.timer);
+      glossaryPressRef.current = null;
+    }
+
+    window.addEventListener("pointermove", cancelPress);
+    window.addEventListener("pointerup", cancelPress);
+    window.addEventListener("pointercancel", cancelPress);
+    return () => {
+      window.removeEventListener("pointermove", cancelPress);
+      window.removeEventListener("pointerup", cancelPress);
+      window.removeEventListener("pointercancel", cancelPress);
+      if (glossaryPressRef.current) {
+        window.clearTimeout(glossaryPressRef.current.timer);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    // Ctrl/Cmd+F searches the pattern rather than the page chrome.
+    function onSearchHotkey(event: KeyboardEvent) {
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === "f") {
+        event.preventDefault();
+        closeAllPanels();
+        setIsSearchOpen(true);
+      }
+    }
+
+    window.addEventListener("keydown", onSearchHotkey);
+    return () => {
+      window.removeEventListener("keydown", onSearchHotkey);
+    };
+  }, [closeAllPanels]);
 
-      if (!highlights.length) {
+  useEffect(() => {
+    // Re-attached every render so a pedal press always acts on current state.
+    function onBindingKey(event: KeyboardEvent) {
+      if (capturingKeyAction) {
+        event.preventDefault();
+        if (event.key === "Escape") {
+          setCapturingKeyAction(null);
+          return;
+        }
+        const key = keyFromEvent(event);
+        if (key) {
+          setKeyBindings(assignKey(keyBindings, capturingKeyAction, key));
+          setCapturingKeyAction(null);
+        }
         return;
       }
 
+      // A held key auto-repeats; one press is one tick.
+      if (event.repeat) {
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT" || target.isContentEditable)) {
+        return;
+      }
+      const key = keyFromEvent(event);
+      // Space and Enter press a focused button or link; pedal keys still count.
+      if ((key === "Space" || key === "Enter") && target?.closest("button, a, [role='button'], [tabindex]")) {
+        return;
+      }
+      const action = key ? actionForKey(keyBindings, key) : null;
+      if (!action) {
+        return;
+      }
       event.preventDefault();
-      setHighlights((prev) => prev.slice(0, -1));
+      runKeyAction(action);
     }
 
-    window.addEventListener("keydown", onUndoHighlightHotkey);
+    window.addEventListener("keydown", onBindingKey);
     return () => {
-      window.removeEventListener("keydown", onUndoHighlightHotkey);
+      window.removeEventListener("keydown", onBindingKey);
     };
-  }, [highlights.length]);
+  });
 
   function pageOverlayPointerDown(event: React.PointerEvent, pageIndex: number) {
     if (event.button !== 0) {
@@ -1403,6 +2416,11 @@ export default function ProjectEditorPage({
       return;
     }
 
+    if (mode === "checklist") {
+      checklistTapRef.current = { clientX: event.clientX, clientY: event.clientY };
+    }
+    setGlossaryPopup(null);
+
     const hadTextSelected = selectedTextAnnotationId !== null;
     setSelectedTextAnnotationId(null);
     setEditingTextAnnotationId(null);
@@ -1412,27 +2430,52 @@ export default function ProjectEditorPage({
       return;
     }
 
-    if (isSelectingReference) {
+    if (isSelectingRegion) {
       event.preventDefault();
-      const rect = pageElement.getBoundingClientRect();
-      const startX = clamp((event.clientX - rect.left) / zoom, 0, pages[pageIndex]?.width ?? 0);
-      const startY = clamp((event.clientY - rect.top) / zoom, 0, pages[pageIndex]?.height ?? 0);
-      drawingRef.current = { tool: "reference", pageIndex, startX, startY };
+      const point = pointOnPage(pageElement, pageIndex, event.clientX, event.clientY);
+      const startX = clamp(point.x, 0, pages[pageIndex]?.width ?? 0);
+      const startY = clamp(point.y, 0, pages[pageIndex]?.height ?? 0);
+      const tool = isPickingGlossary ? "glossary" : isPickingCrop ? "crop" : "reference";
+      drawingRef.current = { tool, pageIndex, startX, startY };
       return;
     }
 
+    if (mode !== "highlight") {
+      const { clientX, clientY } = event;
+      glossaryPressRef.current = {
+        timer: window.setTimeout(() => defineWordAt(pageIndex, clientX, clientY), GLOSSARY_PRESS_MS),
+        clientX,
+        clientY
+      };
+    }
+
     if (mode === "highlight") {
       event.preventDefault();
-      const rect = pageElement.getBoundingClientRect();
-      const startX = clamp((event.clientX - rect.left) / zoom, 0, pages[pageIndex]?.width ?? 0);
-      const startY = clamp((event.clientY - rect.top) / zoom, 0, pages[pageIndex]?.height ?? 0);
+      const point = pointOnPage(pageElement, pageIndex, event.clientX, event.clientY);
+      const startX = clamp(point.x, 0, pages[pageIndex]?.width ?? 0);
+      const startY = clamp(point.y, 0, pages[pageIndex]?.height ?? 0);
+
+      if (drawTool === "select") {
+        beginSelectGesture(event, pageIndex, startX, startY);
+        return;
+      }
+
+      if (drawTool !== "eraser" && (!activeLayer.visible || activeLayer.locked)) {
+        showToast(`"${activeLayer.name}" is ${activeLayer.locked ? "locked" : "hidden"}. Pick another layer to draw on.`, {
+          actionLabel: "Layers",
+          onAction: toggleLayersPanel
+        });
+        return;
+      }
 
       if (drawTool === "eraser") {
         const radius = ERASER_SCREEN_RADIUS / zoom;
         erasingRef.current = { pageIndex, lastX: startX, lastY: startY };
         setEraserCursor({ pageIndex, x: startX, y: startY });
         setHighlights((prev) => {
-          const result = eraseAlongSegment(prev, pageIndex, startX, startY, startX, startY, radius);
+          const result = eraseAlongSegment(prev, pageIndex, startX, startY, startX, startY, radius, (item) =>
+            isAnnotationEditable(item, layers)
+          );
           return result.changed ? result.annotations : prev;
         });
         return;
@@ -1455,7 +2498,8 @@ export default function ProjectEditorPage({
             height: 0,
             text: "",
             color: strokeColor,
-            fontSize: 22
+            fontSize: 22,
+            layerId: activeLayer.id
           }
         ]);
         setSelectedTextAnnotationId(id);
@@ -1463,6 +2507,29 @@ export default function ProjectEditorPage({
         return;
       }
 
+      if (drawTool === "check") {
+        setHighlights((prev) => [
+          ...prev,
+          {
+            id: createId("hl"),
+            kind: "check",
+            pageIndex,
+            x: startX - CHECK_SIZE / 2,
+            y: startY - CHECK_SIZE / 2,
+            width: CHECK_SIZE,
+            height: CHECK_SIZE,
+            color: strokeColor,
+            layerId: activeLayer.id
+          }
+        ]);
+        return;
+      }
+
+      if (drawTool === "stamp") {
+        placeStamp(pageIndex, startX, startY);
+        return;
+      }
+
       if (drawTool === "freeDraw") {
         freeDrawPointsRef.current = [{ x: startX, y: startY }];
         drawingRef.current = { tool: "freeDraw", pageIndex, startX, startY };
@@ -1475,7 +2542,8 @@ export default function ProjectEditorPage({
           width: 0,
           height: 0,
           points: [{ x: startX, y: startY }],
-          color: strokeColor
+          color: strokeColor,
+          ...annotationStrokeFields(toolStyles.freeDraw)
         });
         return;
       }
@@ -1501,6 +2569,158 @@ export default function ProjectEditorPage({
     };
   }
 
+  function placeStamp(pageIndex: number, x: number, y: number) {
+    const symbol = chartSymbolById(activeStampId);
+    const custom = symbol ? null : customStamps.find((stamp) => stamp.id === activeStampId);
+    if (!symbol && !custom) {
+      showToast("Pick a stamp in the tools panel first.");
+      return;
+    }
+    const width = (symbol ? symbol.cells : customStampCells(custom?.text ?? "")) * STAMP_SIZE;
+    setHighlights((prev) => [
+      ...prev,
+      {
+        id: createId("hl"),
+        kind: "stamp",
+        pageIndex,
+        x: x - width / 2,
+        y: y - STAMP_SIZE / 2,
+        width,
+        height: STAMP_SIZE,
+        stamp: activeStampId,
+        text: custom?.text,
+        color: strokeColor,
+        layerId: activeLayer.id
+      }
+    ]);
+  }
+
+  function addCustomStamp() {
+    const text = customStampDraft.trim().slice(0, MAX_CUSTOM_STAMP_LENGTH);
+    if (!text) {
+      return;
+    }
+    const existing = customStamps.find((stamp) => stamp.text.toLowerCase() === text.toLowerCase());
+    if (existing) {
+      setActiveStampId(existing.id);
+    } else {
+      const stamp = { id: createId("stamp"), text };
+      setCustomStamps([...customStamps, stamp]);
+      setActiveStampId(stamp.id);
+    }
+    setCustomStampDraft("");
+  }
+
+  // Stamps already placed keep their text, so removing one only affects the palette.
+  function removeCustomStamp(stampId: string) {
+    setCustomStamps(customStamps.filter((stamp) => stamp.id !== stampId));
+    if (activeStampId === stampId) {
+      setActiveStampId("knit");
+    }
+  }
+
+  function beginSelectGesture(event: React.PointerEvent, pageIndex: number, x: number, y: number) {
+    // A selection lives on one page; starting on another page starts over.
+    const current = highlights.filter((item) => selectedAnnotationIds.includes(item.id) && item.pageIndex === pageIndex);
+    const currentIds = current.map((item) => item.id);
+    const editable = highlights.filter((item) => isAnnotationEditable(item, layers));
+    const hit = hitTestAnnotation(editable, pageIndex, x, y, SELECT_SCREEN_TOLERANCE / zoom);
+    const currentBounds = unionBounds(current.map(annotationBounds));
+    const insideSelection =
+      currentBounds !== null &&
+      x >= currentBounds.x &&
+      x <= currentBounds.x + currentBounds.width &&
+      y >= currentBounds.y &&
+      y <= currentBounds.y + currentBounds.height;
+
+    if (event.shiftKey) {
+      if (hit) {
+        setSelectedAnnotationIds(
+          currentIds.includes(hit.id) ? currentIds.filter((id) => id !== hit.id) : [...currentIds, hit.id]
+        );
+        return;
+      }
+      selectGestureRef.current = { kind: "lasso", pageIndex, points: [{ x, y }], additive: true };
+      setSelectedAnnotationIds(currentIds);
+      setLasso({ pageIndex, points: [{ x, y }] });
+      return;
+    }
+
+    if (!hit && !insideSelection) {
+      selectGestureRef.current = { kind: "lasso", pageIndex, points: [{ x, y }], additive: false };
+      setSelectedAnnotationIds([]);
+      setLasso({ pageIndex, points: [{ x, y }] });
+      return;
+    }
+
+    const nextIds = hit && !currentIds.includes(hit.id) ? [hit.id] : currentIds;
+    setSelectedAnnotationIds(nextIds);
+    selectGestureRef.current = {
+      kind: "move",
+      pageIndex,
+      startX: x,
+      startY: y,
+      originals: highlights.filter((item) => nextIds.includes(item.id))
+    };
+  }
+
+  function startResizingSelection(event: React.PointerEvent, pageIndex: number, handle: ResizeHandle, bounds: Rect) {
+    event.stopPropagation();
+    event.preventDefault();
+    selectGestureRef.current = {
+      kind: "resize",
+      pageIndex,
+      handle,
+      bounds,
+      originals: highlights.filter((item) => selectedAnnotationIds.includes(item.id) && item.pageIndex === pageIndex)
+    };
+  }
+
+  function startDraggingLineEnd(event: React.PointerEvent, annotation: Annotation, end: "start" | "end") {
+    event.stopPropagation();
+    event.preventDefault();
+    selectGestureRef.current = { kind: "endpoint", pageIndex: annotation.pageIndex, end, original: annotation };
+  }
+
+  function recolorSelectedAnnotations(color: string) {
+    setHighlights((prev) =>
+      prev.map((item) => (selectedAnnotationIds.includes(item.id) ? { ...item, color } : item))
+    );
+  }
+
+  function deleteSelectedAnnotations() {
+    setHighlights((prev) => prev.filter((item) => !selectedAnnotationIds.includes(item.id)));
+    setSelectedAnnotationIds([]);
+  }
+
+  // A click rather than pointerdown, so scrolling past a line doesn't tick it.
+  function pageOverlayClick(event: React.MouseEvent, pageIndex: number) {
+    const tap = checklistTapRef.current;
+    checklistTapRef.current = null;
+    if (mode !== "checklist" || !tap || Math.hypot(event.clientX - tap.clientX, event.clientY - tap.clientY) > 8) {
+      return;
+    }
+    const pageElement = pageRefs.current[pageIndex];
+    const lines = pageTextLines[pageIndex];
+    if (!pageElement) {
+      return;
+    }
+    if (!lines) {
+      showToast("Still reading this page's text…");
+      return;
+    }
+    const point = pointOnPage(pageElement, pageIndex, event.clientX, event.clientY);
+    const line = textLineAtPoint(lines, point.x, point.y);
+    if (!line) {
+      if (lines.length === 0) {
+        showToast("This page has no selectable text (it may be a scan), so there are no lines to check off.");
+      }
+      return;
+    }
+    tapHaptic();
+    setChecklist((prev) => toggleChecklistLine(prev, line));
+  }
+
   function pageOverlayPointerMove(event: React.PointerEvent, pageIndex: number) {
     if (mode !== "highlight" || drawTool !== "eraser" || erasingRef.current) {
       return;
@@ -1510,11 +2730,11 @@ export default function ProjectEditorPage({
     if (!pageElement || !pageMetric) {
       return;
     }
-    const rect = pageElement.getBoundingClientRect();
+    const point = pointOnPage(pageElement, pageIndex, event.clientX, event.clientY);
     setEraserCursor({
       pageIndex,
-      x: clamp((event.clientX - rect.left) / zoom, 0, pageMetric.width),
-      y: clamp((event.clientY - rect.top) / zoom, 0, pageMetric.height)
+      x: clamp(point.x, 0, pageMetric.width),
+      y: clamp(point.y, 0, pageMetric.height)
     });
   }
 
@@ -1536,24 +2756,69 @@ export default function ProjectEditorPage({
         return { pageIndex: i, yRatio: 0 };
       }
       if (lineClientY <= rect.bottom) {
-        return { pageIndex: i, yRatio: clamp((lineClientY - rect.top) / rect.height, 0, 1) };
+        const pageMetric = pages[i];
+        return {
+          pageIndex: i,
+          yRatio: pageMetric
+            ? pageRatioAtDisplayY(pageTransformFor(pageTransforms, i), pageMetric, (lineClientY - rect.top) / zoom)
+            : clamp((lineClientY - rect.top) / rect.height, 0, 1)
+        };
       }
     }
     return { pageIndex: pages.length - 1, yRatio: 1 };
   }
 
-  function scrollToAnchor(anchor: ScrollAnchor) {
+  const scrollToAnchor = useCallback(
+    (anchor: Pick<ScrollAnchor, "pageIndex" | "yRatio">) => {
+      const viewer = viewerRef.current;
+      const pageElement = pageRefs.current[anchor.pageIndex];
+      if (!viewer || !pageElement) {
+        return;
+      }
+      const viewerRect = viewer.getBoundingClientRect();
+      const rect = pageElement.getBoundingClientRect();
+      const pageTopContent = rect.top - viewerRect.top + viewer.scrollTop;
+      const pageMetric = pages[anchor.pageIndex];
+      const offset = pageMetric
+        ? displayYAtPageRatio(pageTransformFor(pageTransforms, anchor.pageIndex), pageMetric, anchor.yRatio) * zoom
+        : anchor.yRatio * rect.height;
+      const target = pageTopContent + offset - (toolbarHeight + 16);
+      viewer.scrollTo({ top: Math.max(0, target), behavior: "smooth" });
+    },
+    [pageTransforms, pages, toolbarHeight, zoom]
+  );
+
+  useEffect(() => {
+    // Diff against the previous render's positions so every way a counter can
+    // move (taps, typed values, linked counters) announces its target once.
+    const previous = counterPositionsRef.current;
+    counterPositionsRef.current = new Map(counters.map((counter) => [counter.id, counterPosition(counter)]));
+    if (!hydratedWorkspaceRef.current) {
+      return;
+    }
+    const reached = findReachedTargets(previous, counters);
+    if (!reached.length) {
+      return;
+    }
+
+    const counter = reached[0];
+    tapHaptic([40, 60, 40]);
+    const nextAnchor = counter.targetAnchorId
+      ? anchors.find((anchor) => anchor.id === counter.targetAnchorId)
+      : undefined;
     const viewer = viewerRef.current;
-    const pageElement = pageRefs.current[anchor.pageIndex];
-    if (!viewer || !pageElement) {
+    if (!nextAnchor || !viewer) {
+      showToast(`${counter.label} reached ${counter.target} — section done.`, { duration: 6000 });
       return;
     }
-    const viewerRect = viewer.getBoundingClientRect();
-    const rect = pageElement.getBoundingClientRect();
-    const pageTopContent = rect.top - viewerRect.top + viewer.scrollTop;
-    const target = pageTopContent + anchor.yRatio * rect.height - (toolbarHeight + 16);
-    viewer.scrollTo({ top: Math.max(0, target), behavior: "smooth" });
-  }
+    const returnTop = viewer.scrollTop;
+    scrollToAnchor(nextAnchor);
+    showToast(`${counter.label} reached ${counter.target} — on to ${nextAnchor.name}.`, {
+      actionLabel: "Back",
+      onAction: () => viewer.scrollTo({ top: returnTop, behavior: "smooth" }),
+      duration: 8000
+    });
+  }, [counters, anchors, scrollToAnchor, showToast]);
 
   function addAnchorAtCurrentPosition() {
     const located = locateCurrentAnchor();
@@ -1568,6 +2833,60 @@ export default function ProjectEditorPage({
     setEditingAnchorId(id);
   }
 
+  function destinationYRatio(destination: PdfDestination): number {
+    const page = pages[destination.pageIndex];
+    return destination.y === null || !page ? 0 : clamp(destination.y / page.height, 0, 1);
+  }
+
+  function goToPdfDestination(destination: PdfDestination, offerBack: boolean) {
+    const viewer = viewerRef.current;
+    if (!viewer) {
+      return;
+    }
+    if (hiddenPages.includes(destination.pageIndex)) {
+      showToast(`Page ${destination.pageIndex + 1} is hidden from the pattern.`, {
+        actionLabel: "Show",
+        onAction: () => setHiddenPages((prev) => prev.filter((index) => index !== destination.pageIndex))
+      });
+      return;
+    }
+    const returnTop = viewer.scrollTop;
+    scrollToAnchor({ pageIndex: destination.pageIndex, yRatio: destinationYRatio(destination) });
+    if (offerBack) {
+      showToast(`Jumped to page ${destination.pageIndex + 1}.`, {
+        actionLabel: "Back",
+        onAction: () => viewer.scrollTo({ top: returnTop, behavior: "smooth" })
+      });
+    }
+  }
+
+  // Copies the PDF's bookmarks into the project's own, skipping any that are
+  // already there, so they can be renamed, deleted and used as counter targets.
+  function convertOutlineToAnchors() {
+    if (!pdfOutline?.length) {
+      return;
+    }
+    const added: ScrollAnchor[] = [];
+    for (const item of pdfOutline) {
+      const yRatio = destinationYRatio(item.destination);
+      const exists = [...anchors, ...added].some(
+        (anchor) =>
+          anchor.name === item.title &&
+          anchor.pageIndex === item.destination.pageIndex &&
+          Math.abs(anchor.yRatio - yRatio) < 0.01
+      );
+      if (!exists) {
+        added.push({ id: createId("anchor"), name: item.title, pageIndex: item.destination.pageIndex, yRatio });
+      }
+    }
+    if (added.length === 0) {
+      showToast("The PDF's bookmarks are already in your list.");
+      return;
+    }
+    setAnchors((prev) => [...prev, ...added]);
+    showToast(`Added ${added.length} ${added.length === 1 ? "bookmark" : "bookmarks"} from the PDF.`);
+  }
+
   function renameAnchor(anchorId: string, name: string) {
     setAnchors((prev) => prev.map((anchor) => (anchor.id === anchorId ? { ...anchor, name } : anchor)));
   }
@@ -1598,13 +2917,15 @@ export default function ProjectEditorPage({
     const removedConnections = connections.filter(
       (item) => item.fromCounterId === counter.id || item.toCounterId === counter.id
     );
-    const undoStack = counterUndoHistoryRef.current[counter.id];
+    const removedShapingRules = shapingRules.filter((rule) => rule.counterId === counter.id);
 
     setCounters((prev) => prev.filter((item) => item.id !== counter.id));
     setConnections((prev) =>
       prev.filter((item) => item.fromCounterId !== counter.id && item.toCounterId !== counter.id)
     );
-    delete counterUndoHistoryRef.current[counter.id];
+    if (removedShapingRules.length > 0) {
+      setShapingRules((prev) => prev.filter((rule) => rule.counterId !== counter.id));
+    }
     if (linkSourceId === counter.id) {
       setLinkSourceId(null);
     }
@@ -1612,13 +2933,13 @@ export default function ProjectEditorPage({
     showToast(`Deleted "${counter.label}" (${counter.value})`, {
       actionLabel: "Undo",
       onAction: () => {
-        if (undoStack) {
-          counterUndoHistoryRef.current[counter.id] = undoStack;
-        }
         setCounters((prev) => [...prev, counter]);
         if (removedConnections.length > 0) {
           setConnections((prev) => [...prev, ...removedConnections]);
         }
+        if (removedShapingRules.length > 0) {
+          setShapingRules((prev) => [...prev, ...removedShapingRules]);
+        }
       }
     });
   }
@@ -1640,12 +2961,7 @@ export default function ProjectEditorPage({
     if (!fromCounterId || fromCounterId === toCounterId) {
       return;
     }
-    setConnections((prev) => {
-      if (prev.some((item) => item.fromCounterId === fromCounterId && item.toCounterId === toCounterId)) {
-        return prev;
-      }
-      return [...prev, { id: createId("conn"), fromCounterId, toCounterId }];
-    });
+    linkCounters(fromCounterId, toCounterId);
   }
 
   function addCounter(type: CounterType) {
@@ -1704,12 +3020,12 @@ export default function ProjectEditorPage({
       return;
     }
 
-    const rect = pageElement.getBoundingClientRect();
+    const point = pointOnPage(pageElement, counter.pageIndex, event.clientX, event.clientY);
     draggingCounterRef.current = {
       counterId: counter.id,
       pageIndex: counter.pageIndex,
-      offsetX: (event.clientX - rect.left) / zoom - counter.x,
-      offsetY: (event.clientY - rect.top) / zoom - counter.y
+      offsetX: point.x - counter.x,
+      offsetY: point.y - counter.y
     };
   }
 
@@ -1720,11 +3036,12 @@ export default function ProjectEditorPage({
       return null;
     }
     const nodeRect = node.getBoundingClientRect();
-    const pageRect = pageElement.getBoundingClientRect();
-    return {
-      x: (nodeRect.left + nodeRect.width / 2 - pageRect.left) / zoom,
-      y: (nodeRect.top + nodeRect.height / 2 - pageRect.top) / zoom
-    };
+    return pointOnPage(
+      pageElement,
+      counter.pageIndex,
+      nodeRect.left + nodeRect.width / 2,
+      nodeRect.top + nodeRect.height / 2
+    );
   }
 
   function startConnectionDrag(event: React.PointerEvent, counter: KnitCounter) {
@@ -1752,74 +3069,419 @@ export default function ProjectEditorPage({
   }
 
   function applyConnectedIncrement(sourceCounterId: string, amount: number) {
-    if (amount <= 0) {
+    if (amount === 0) {
       return;
     }
 
-    const outgoing = new Map<string, string[]>();
-    for (const connection of connections) {
-      const list = outgoing.get(connection.fromCounterId) ?? [];
-      list.push(connection.toCounterId);
-      outgoing.set(connection.fromCounterId, list);
-    }
+    const next = propagateCounterChange(counters, connections, sourceCounterId, amount);
+    setCounters(next);
+    recordCounterChanges(next, sourceCounterId);
+    followChecklistCounter(next);
+  }
 
-    const visited = new Set<string>([sourceCounterId]);
-    const queue = [sourceCounterId];
-    while (queue.length > 0) {
-      const id = queue.shift();
-      if (!id) {
-        continue;
-      }
-      for (const nextId of outgoing.get(id) ?? []) {
-        if (visited.has(nextId)) {
-          continue;
-        }
-        visited.add(nextId);
-        queue.push(nextId);
-      }
+  // Moves the checklist along with its synced row counter, however the
+  // counter was moved (directly, through a link, or by its undo).
+  function followChecklistCounter(next: KnitCounter[]) {
+    const before = counters.find((counter) => counter.id === checklist.counterId);
+    const after = next.find((counter) => counter.id === checklist.counterId);
+    if (!before || !after) {
+      return;
     }
-
-    setCounters((prev) => {
-      return prev.map((item) => {
-        if (!visited.has(item.id)) {
-          return item;
-        }
-        const stack = counterUndoHistoryRef.current[item.id] ?? [];
-        counterUndoHistoryRef.current[item.id] = [...stack, item.value];
-        return {
-          ...item,
-          value: item.value + amount
-        };
+    const steps = counterPosition(after) - counterPosition(before);
+    if (steps === 0) {
+      return;
+    }
+    const advanced = advanceChecklist(checklist, pageTextLinesInOrder, steps);
+    if (!advanced) {
+      showToast(`Tap the line you're on in checklist mode so ${after.label} knows where to start.`, {
+        actionLabel: "Checklist",
+        onAction: () => setMode("checklist")
       });
+      return;
+    }
+    setChecklist(advanced);
+  }
+
+  function setChecklistCounter(counterId: string | null) {
+    setChecklist((prev) => ({ ...prev, counterId }));
+  }
+
+  function clearChecklist() {
+    const count = checklist.done.length;
+    setChecklist((prev) => ({ ...prev, done: [] }));
+    showToast(`Cleared ${count} checked ${count === 1 ? "line" : "lines"}.`, {
+      actionLabel: "Undo",
+      onAction: undoWorkspace
     });
   }
 
+  function recordCounterChanges(next: KnitCounter[], sourceCounterId: string) {
+    const events = counterChangeEvents(counters, next, sourceCounterId, createId("batch"), new Date().toISOString());
+    if (!events.length) {
+      return;
+    }
+    setCounterEvents((prev) => [...prev, ...events]);
+    noteKnittingActivity(events[0].at);
+    // Convex queues mutations while offline and replays them in order, and
+    // `record` ignores ids it already has.
+    void recordCounterEventsMutation({ projectId: params.projectId, events }).catch(() => undefined);
+  }
+
   const visibleHighlights = useMemo(() => {
-    const next = [...highlights];
+    const next = visibleAnnotationsByLayer(highlights, layers);
     if (draftHighlight) {
-      next.push(draftHighlight);
+      next.push({ ...draftHighlight, layerId: activeLayer.id });
     }
     if (draftFreeDraw) {
-      next.push(draftFreeDraw);
+      next.push({ ...draftFreeDraw, layerId: activeLayer.id });
     }
     return next;
-  }, [draftFreeDraw, draftHighlight, highlights]);
-
-  function toSvgPath(points: Array<{ x: number; y: number }> | undefined, scale: number): string {
-    if (!points || points.length < 2) {
-      return "";
-    }
-    return points.map((point, index) => `${index === 0 ? "M" : "L"} ${point.x * scale} ${point.y * scale}`).join(" ");
-  }
-
-  const counterById = useMemo(() => {
-    const map = new Map<string, KnitCounter>();
-    for (const counter of counters) {
-      map.set(counter.id, counter);
+  }, [activeLayer.id, draftFreeDraw, draftHighlight, highlights, layers]);
+
+  const needsPageText =
+    mode === "checklist" ||
+    checklist.counterId !== null ||
+    (size.index !== null && size.visible) ||
+    isSizeOpen ||
+    isSearchOpen ||
+    isGlossaryOpen ||
+    isPickingGlossary ||
+    glossaryPopup !== null ||
+    searchQuery.trim() !== "";
+  const textProjectId = project?.metadata.id;
+  const textFingerprint = project?.metadata.fingerprint;
+
+  // Text comes from the local cache when this PDF has been read before;
+  // otherwise pdf.js reads it page by page and the result is cached.
+  useEffect(() => {
+    if (!pdfDoc || !needsPageText || !textProjectId || textFingerprint === undefined) {
+      return;
+    }
+    let cancelled = false;
+    void (async () => {
+      if (Object.keys(pageTextLinesRef.current).length === 0) {
+        const cached = await readCachedPageText(textProjectId, textFingerprint).catch(() => null);
+        if (cancelled) {
+          return;
+        }
+        if (cached && cached.length === pdfDoc.numPages) {
+          setPageTextLines(Object.fromEntries(cached.map((lines, pageIndex) => [pageIndex, lines])));
+          return;
+        }
+      }
+      const loaded: PageTextLine[][] = [];
+      for (let pageIndex = 0; pageIndex < pdfDoc.numPages; pageIndex += 1) {
+        const existing = pageTextLinesRef.current[pageIndex];
+        if (existing) {
+          loaded.push(existing);
+          continue;
+        }
+        let lines: PageTextLine[];
+        try {
+          lines = await getPageTextLines(pdfDoc, pageIndex);
+        } catch {
+          // A page whose text can't be read just has nothing to find.
+          lines = [];
+        }
+        if (cancelled) {
+          return;
+        }
+        loaded.push(lines);
+        setPageTextLines((prev) => ({ ...prev, [pageIndex]: lines }));
+      }
+      void writeCachedPageText(textProjectId, textFingerprint, loaded).catch(() => undefined);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [needsPageText, pdfDoc, textFingerprint, textProjectId]);
+
+  useEffect(() => {
+    pageThumbnailsRef.current = pageThumbnails;
+  }, [pageThumbnails]);
+
+  // Thumbnails come from the local cache first; the pages in view that
+  // aren't cached yet are drawn one at a time and then cached too.
+  useEffect(() => {
+    if (!pdfDoc || !isPagesOpen || !textProjectId || textFingerprint === undefined) {
+      return;
+    }
+    const cacheKey = `${textProjectId}:${textFingerprint}`;
+    let cancelled = false;
+    void (async () => {
+      let known = pageThumbnailsRef.current;
+      if (thumbnailCacheKeyRef.current !== cacheKey) {
+        const cached = await readCachedPageThumbnails(textProjectId, textFingerprint).catch(() => null);
+        if (cancelled) {
+          return;
+        }
+        thumbnailCacheKeyRef.current = cacheKey;
+        known = cached ?? {};
+        pageThumbnailsRef.current = known;
+        setPageThumbnails(known);
+      }
+      const missing = thumbnailPageIndexes.filter((pageIndex) => !known[pageIndex] && pageIndex < pdfDoc.numPages);
+      if (missing.length === 0) {
+        return;
+      }
+      const drawn: Record<number, string> = {};
+      for (const pageIndex of missing) {
+        const thumbnail = await renderPageThumbnail(pdfDoc, pageIndex, PAGE_THUMBNAIL_WIDTH).catch(() => null);
+        if (cancelled) {
+          break;
+        }
+        if (thumbnail) {
+          drawn[pageIndex] = thumbnail;
+          setPageThumbnails((prev) => ({ ...prev, [pageIndex]: thumbnail }));
+        }
+      }
+      if (Object.keys(drawn).length > 0) {
+        void writeCachedPageThumbnails(textProjectId, textFingerprint, {
+          ...pageThumbnailsRef.current,
+          ...drawn
+        }).catch(() => undefined);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isPagesOpen, pdfDoc, textFingerprint, textProjectId, thumbnailPageIndexes]);
+
+  const pageBadges = useMemo(() => {
+    const badges: PageBadges[] = pages.map(() => ({ counters: 0, annotations: 0, anchors: 0 }));
+    for (const counter of counters) {
+      if (badges[counter.pageIndex]) {
+        badges[counter.pageIndex].counters += 1;
+      }
+    }
+    for (const annotation of highlights) {
+      if (badges[annotation.pageIndex]) {
+        badges[annotation.pageIndex].annotations += 1;
+      }
+    }
+    for (const anchor of anchors) {
+      if (badges[anchor.pageIndex]) {
+        badges[anchor.pageIndex].anchors += 1;
+      }
+    }
+    return badges;
+  }, [anchors, counters, highlights, pages]);
+
+  const pageTextLinesInOrder = useMemo(
+    () =>
+      Object.keys(pageTextLines)
+        .map(Number)
+        .sort((left, right) => left - right)
+        .flatMap((pageIndex) => pageTextLines[pageIndex]),
+    [pageTextLines]
+  );
+  const isPageTextComplete = pages.length > 0 && Object.keys(pageTextLines).length >= pages.length;
+
+  // The longest size series in the pattern sets how many sizes there are;
+  // its values label the size buttons.
+  const sizeSample = useMemo(() => {
+    let sample: SizeValue[] = [];
+    for (const line of pageTextLinesInOrder) {
+      for (const series of findSizeSeries(line.text)) {
+        if (series.length > sample.length) {
+          sample = series;
+        }
+      }
+    }
+    return sample;
+  }, [pageTextLinesInOrder]);
+
+  const sizeHighlights = useMemo(() => {
+    const sizeIndex = size.index;
+    if (sizeIndex === null || !size.visible) {
+      return [];
+    }
+    return pageTextLinesInOrder.flatMap((line) =>
+      findSizeSeries(line.text).flatMap((series) => {
+        const value = valueForSize(series, sizeIndex);
+        if (!value) {
+          return [];
+        }
+        const span = textLineSpan(line, value.start, value.end);
+        return [
+          {
+            key: `${line.pageIndex}:${Math.round(line.x)}:${Math.round(line.y)}:${value.start}`,
+            pageIndex: line.pageIndex,
+            x: span.x,
+            y: line.y,
+            width: span.width,
+            height: line.height
+          }
+        ];
+      })
+    );
+  }, [pageTextLinesInOrder, size.index, size.visible]);
+
+  const searchHits = useMemo(() => searchPageText(pageTextLinesInOrder, searchQuery), [pageTextLinesInOrder, searchQuery]);
+  const activeSearchHit = searchHits[Math.min(activeSearchHitIndex, searchHits.length - 1)] ?? null;
+
+  const nextChecklistTarget = checklist.counterId ? nextChecklistLine(checklist, pageTextLinesInOrder) : null;
+
+  function layerColorFor(annotation: Annotation): string | undefined {
+    const layerId = annotationLayerId(annotation, layers);
+    return layers.find((layer) => layer.id === layerId)?.color;
+  }
+
+  function markColor(annotation: Annotation): string {
+    return layerColorFor(annotation) ?? annotation.color ?? strokeColor;
+  }
+
+  function toSvgPath(points: Array<{ x: number; y: number }> | undefined, scale: number): string {
+    if (!points || points.length < 2) {
+      return "";
+    }
+    return points.map((point, index) => `${index === 0 ? "M" : "L"} ${point.x * scale} ${point.y * scale}`).join(" ");
+  }
+
+  function toSvgPoints(points: Array<{ x: number; y: number }>): string {
+    return points.map((point) => `${point.x},${point.y}`).join(" ");
+  }
+
+  // Stroke widths are screen pixels, like the line and rectangle borders, so
+  // marks keep their weight at every zoom.
+  function renderSvgMark(item: Annotation) {
+    const color = markColor(item);
+    switch (item.kind) {
+      case "freeDraw":
+        return (
+          <path
+            key={item.id}
+            d={toSvgPath(item.points, zoom)}
+            className="free-draw-path"
+            style={{
+              stroke: color,
+              strokeWidth: item.strokeWidth,
+              strokeDasharray: strokeDashArray(item.dash, item.strokeWidth ?? LEGACY_STROKE_STYLES.freeDraw.width),
+              opacity: item.opacity
+            }}
+          />
+        );
+      case "arrow": {
+        const width = item.strokeWidth ?? LEGACY_STROKE_STYLES.arrow.width;
+        const { shaftEnd, head } = arrowGeometry(
+          item.x * zoom,
+          item.y * zoom,
+          (item.x2 ?? item.x) * zoom,
+          (item.y2 ?? item.y) * zoom,
+          width
+        );
+        return (
+          <g key={item.id} opacity={item.opacity}>
+            <line
+              x1={item.x * zoom}
+              y1={item.y * zoom}
+              x2={shaftEnd.x}
+              y2={shaftEnd.y}
+              className="shape-stroke"
+              style={{ stroke: color, strokeWidth: width, strokeDasharray: strokeDashArray(item.dash, width) }}
+            />
+            <polygon points={toSvgPoints(head)} style={{ fill: color }} />
+          </g>
+        );
+      }
+      case "strike": {
+        const width = item.strokeWidth ?? LEGACY_STROKE_STYLES.strike.width;
+        return (
+          <line
+            key={item.id}
+            x1={item.x * zoom}
+            y1={item.y * zoom}
+            x2={(item.x2 ?? item.x) * zoom}
+            y2={(item.y2 ?? item.y) * zoom}
+            className="shape-stroke"
+            style={{ stroke: color, strokeWidth: width, strokeDasharray: strokeDashArray(item.dash, width), opacity: item.opacity }}
+          />
+        );
+      }
+      case "ellipse": {
+        const width = item.strokeWidth ?? LEGACY_STROKE_STYLES.ellipse.width;
+        return (
+          <ellipse
+            key={item.id}
+            cx={(item.x + item.width / 2) * zoom}
+            cy={(item.y + item.height / 2) * zoom}
+            rx={(item.width / 2) * zoom}
+            ry={(item.height / 2) * zoom}
+            className="shape-stroke"
+            style={{ stroke: color, strokeWidth: width, strokeDasharray: strokeDashArray(item.dash, width), opacity: item.opacity }}
+          />
+        );
+      }
+      case "check": {
+        const box = { x: item.x * zoom, y: item.y * zoom, width: item.width * zoom, height: item.height * zoom };
+        return (
+          <polyline
+            key={item.id}
+            points={toSvgPoints(checkmarkPoints(box))}
+            className="shape-stroke"
+            style={{ stroke: color, strokeWidth: checkmarkStrokeWidth(box) }}
+          />
+        );
+      }
+      case "stamp":
+        return (
+          <StampGlyph
+            key={item.id}
+            stamp={item.stamp}
+            text={item.text}
+            color={color}
+            x={item.x * zoom}
+            y={item.y * zoom}
+            width={item.width * zoom}
+            height={item.height * zoom}
+            opacity={item.opacity}
+          />
+        );
+      default:
+        return null;
+    }
+  }
+
+  const counterById = useMemo(() => {
+    const map = new Map<string, KnitCounter>();
+    for (const counter of counters) {
+      map.set(counter.id, counter);
     }
     return map;
   }, [counters]);
 
+  const knitSessions = useMemo(() => {
+    const saved = (serverKnitSessions ?? []).filter((session) => session.id !== activeSession?.id);
+    return activeSession ? [...saved, activeSession] : saved;
+  }, [activeSession, serverKnitSessions]);
+
+  const paceByType = useMemo(
+    () => ({
+      row: countersPerHour(
+        counterEvents,
+        knitSessions,
+        new Set(counters.filter((counter) => counter.type === "row").map((counter) => counter.id))
+      ),
+      stitch: countersPerHour(
+        counterEvents,
+        knitSessions,
+        new Set(counters.filter((counter) => counter.type === "stitch").map((counter) => counter.id))
+      )
+    }),
+    [counterEvents, counters, knitSessions]
+  );
+
+  // What the shaping schedule asks for on each counter's current row.
+  const dueShaping = useMemo(
+    () =>
+      counters.flatMap((counter) =>
+        shapingDueOnRow(shapingRules, counter.id, counterPosition(counter)).map((event) => ({ ...event, counter }))
+      ),
+    [counters, shapingRules]
+  );
+
+  const upcomingShaping = useMemo(() => upcomingShapingEvents(shapingRules, counters), [counters, shapingRules]);
+
   const connectionStats = useMemo(() => {
     const incoming = new Map<string, number>();
     const outgoing = new Map<string, number>();
@@ -1871,29 +3533,42 @@ export default function ProjectEditorPage({
     if (!current) {
       return;
     }
-    const target = Math.max(0, nextValue);
-    const delta = target - current.value;
-    if (delta > 0) {
-      applyConnectedIncrement(counterId, delta);
-      return;
+    // Typing into a repeat counter picks a row within the current repeat, so
+    // it never wraps into the previous one. 0 ("not started") is only
+    // reachable in the first repeat.
+    const min = current.repeatLength && (current.repeatCount ?? 0) > 0 ? 1 : 0;
+    const target = clamp(Math.floor(nextValue), min, current.repeatLength ?? Number.POSITIVE_INFINITY);
+    applyConnectedIncrement(counterId, target - current.value);
+  }
+
+  function updateCounterValueDraft(counterId: string, text: string) {
+    setCounterValueDrafts((prev) => ({ ...prev, [counterId]: text }));
+  }
+
+  // A typed value is one edit, made on blur or Enter: linked counters and the
+  // history log never see the keystrokes in between. An empty or half-typed
+  // field changes nothing.
+  function commitCounterValueDraft(counterId: string) {
+    const text = counterValueDrafts[counterId];
+    clearCounterValueDraft(counterId);
+    const nextValue = Number(text);
+    if (text !== undefined && text.trim() !== "" && Number.isFinite(nextValue)) {
+      setCounterValue(counterId, nextValue);
     }
+  }
 
-    setCounters((prev) =>
-      prev.map((item) =>
-        item.id === counterId
-          ? {
-              ...item,
-              value: target
-            }
-          : item
-      )
-    );
+  function clearCounterValueDraft(counterId: string) {
+    setCounterValueDrafts((prev) => {
+      const { [counterId]: _cleared, ...rest } = prev;
+      return rest;
+    });
   }
 
+  // Text on a locked or hidden layer stays as it is, like any other mark.
   function updateTextAnnotation(id: string, text: string) {
     setHighlights((prev) =>
       prev.map((item) =>
-        item.id === id
+        item.id === id && isAnnotationEditable(item, layers)
           ? {
               ...item,
               text
@@ -1905,49 +3580,34 @@ export default function ProjectEditorPage({
 
   function updateTextAnnotationProperty(id: string, updates: Partial<Pick<Annotation, "fontSize" | "color">>) {
     setHighlights((prev) =>
-      prev.map((item) => {
-        if (item.id !== id) return item;
-        const stack = textFormatUndoRef.current[id] ?? [];
-        textFormatUndoRef.current[id] = [...stack, { fontSize: item.fontSize ?? 22, color: item.color ?? strokeColor }];
-        return { ...item, ...updates };
-      })
-    );
-  }
-
-  function undoTextFormat(id: string) {
-    const stack = textFormatUndoRef.current[id];
-    if (!stack || stack.length === 0) return;
-    const prev = stack[stack.length - 1];
-    textFormatUndoRef.current[id] = stack.slice(0, -1);
-    setHighlights((h) =>
-      h.map((item) =>
-        item.id === id ? { ...item, fontSize: prev.fontSize, color: prev.color } : item
-      )
+      prev.map((item) => (item.id === id && isAnnotationEditable(item, layers) ? { ...item, ...updates } : item))
     );
   }
 
   function deleteTextAnnotation(id: string) {
-    setHighlights((prev) => prev.filter((item) => item.id !== id));
+    setHighlights((prev) => prev.filter((item) => item.id !== id || !isAnnotationEditable(item, layers)));
     setSelectedTextAnnotationId(null);
     setEditingTextAnnotationId(null);
-    delete textFormatUndoRef.current[id];
   }
 
   function startDraggingText(event: React.PointerEvent, annotation: Annotation) {
     event.stopPropagation();
     event.preventDefault();
+    if (!isAnnotationEditable(annotation, layers)) {
+      return;
+    }
 
     const pageElement = pageRefs.current[annotation.pageIndex];
     if (!pageElement) {
       return;
     }
 
-    const rect = pageElement.getBoundingClientRect();
+    const point = pointOnPage(pageElement, annotation.pageIndex, event.clientX, event.clientY);
     draggingTextRef.current = {
       annotationId: annotation.id,
       pageIndex: annotation.pageIndex,
-      offsetX: (event.clientX - rect.left) / zoom - annotation.x,
-      offsetY: (event.clientY - rect.top) / zoom - annotation.y
+      offsetX: point.x - annotation.x,
+      offsetY: point.y - annotation.y
     };
   }
 
@@ -1955,28 +3615,17 @@ export default function ProjectEditorPage({
     applyConnectedIncrement(counterId, amount);
   }
 
-  function tapHaptic() {
-    if (typeof navigator !== "undefined" && typeof navigator.vibrate === "function") {
-      navigator.vibrate(8);
-    }
-  }
-
   function nudgeCounter(counterId: string, delta: number) {
     tapHaptic();
     setFocusCounterId(counterId);
-    if (delta >= 0) {
-      applyCounterIncrement(counterId, delta);
-      return;
-    }
-    const current = counters.find((item) => item.id === counterId);
-    if (!current) {
-      return;
-    }
-    setCounterValue(counterId, current.value + delta);
+    applyCounterIncrement(counterId, delta);
   }
 
   function scrollCounterIntoView(counter: KnitCounter) {
     setFocusCounterId(counter.id);
+    if (counter.pinned) {
+      return;
+    }
     const viewer = viewerRef.current;
     const pageElement = pageRefs.current[counter.pageIndex];
     if (!viewer || !pageElement) {
@@ -1985,59 +3634,180 @@ export default function ProjectEditorPage({
     const viewerRect = viewer.getBoundingClientRect();
     const rect = pageElement.getBoundingClientRect();
     const pageTopContent = rect.top - viewerRect.top + viewer.scrollTop;
-    const target = pageTopContent + counter.y * zoom - (toolbarHeight + 96);
+    const target = pageTopContent + shownPoint(counter.pageIndex, counter).y * zoom - (toolbarHeight + 96);
     viewer.scrollTo({ top: Math.max(0, target), behavior: "smooth" });
   }
 
-  function undoCounter(counterId: string) {
-    const outgoing = new Map<string, string[]>();
-    for (const connection of connections) {
-      const list = outgoing.get(connection.fromCounterId) ?? [];
-      list.push(connection.toCounterId);
-      outgoing.set(connection.fromCounterId, list);
+  function noteKnittingActivity(at: string) {
+    const current = knitSessionRef.current;
+    const isNew = !continuesSession(current, at);
+    const session = isNew ? { id: createId("session"), startedAt: at, endedAt: at } : { ...current, endedAt: at };
+    if (isNew && current) {
+      // The previous session idled out without its timer firing (sleeping device).
+      flushKnitSession();
+    }
+    knitSessionRef.current = session;
+    setActiveSession(session);
+    if (isNew || Date.now() - knitSessionSyncedAtRef.current > 60_000) {
+      flushKnitSession();
     }
 
-    const visited = new Set<string>([counterId]);
-    const queue = [counterId];
-    while (queue.length > 0) {
-      const id = queue.shift();
-      if (!id) {
-        continue;
+    if (knitSessionIdleTimeoutRef.current !== null) {
+      window.clearTimeout(knitSessionIdleTimeoutRef.current);
+    }
+    knitSessionIdleTimeoutRef.current = window.setTimeout(() => {
+      knitSessionIdleTimeoutRef.current = null;
+      flushKnitSession();
+      knitSessionRef.current = null;
+      setActiveSession(null);
+    }, SESSION_IDLE_MS);
+  }
+
+  function runKeyAction(action: KeyAction) {
+    const active = counters.find((counter) => counter.id === focusCounterId) ?? counters[0];
+    switch (action) {
+      case "increment":
+      case "decrement":
+        if (active) {
+          nudgeCounter(active.id, action === "increment" ? 1 : -1);
+        }
+        return;
+      case "undo":
+        if (active) {
+          tapHaptic();
+          undoCounter(active.id);
+        }
+        return;
+      case "nextCounter":
+      case "previousCounter": {
+        if (!counters.length) {
+          return;
+        }
+        const index = active ? counters.indexOf(active) : -1;
+        const step = action === "nextCounter" ? 1 : -1;
+        const next = counters[(index + step + counters.length) % counters.length];
+        scrollCounterIntoView(next);
+        showToast(`Active counter: ${next.label} (${next.value})`, { duration: 1800 });
+        return;
       }
-      for (const nextId of outgoing.get(id) ?? []) {
-        if (visited.has(nextId)) {
-          continue;
+      case "nextAnchor":
+      case "previousAnchor": {
+        const here = locateCurrentAnchor();
+        if (!here || !anchors.length) {
+          return;
         }
-        visited.add(nextId);
-        queue.push(nextId);
+        const ordered = [...anchors].sort((a, b) => a.pageIndex - b.pageIndex || a.yRatio - b.yRatio);
+        const position = (anchor: ScrollAnchor) => anchor.pageIndex + anchor.yRatio;
+        // A small margin so the bookmark we just jumped to doesn't count as "next".
+        const next =
+          action === "nextAnchor"
+            ? ordered.find((anchor) => position(anchor) > here.pageIndex + here.yRatio + 0.01)
+            : [...ordered].reverse().find((anchor) => position(anchor) < here.pageIndex + here.yRatio - 0.01);
+        if (next) {
+          scrollToAnchor(next);
+        }
+        return;
+      }
+      case "nextPage":
+      case "previousPage": {
+        // Hidden pages are out of the reading flow, so paging steps over them.
+        const step = action === "nextPage" ? 1 : -1;
+        let pageIndex = currentPageNumber - 1 + step;
+        while (hiddenPages.includes(pageIndex)) {
+          pageIndex += step;
+        }
+        if (pageIndex >= 0 && pageIndex < pages.length) {
+          scrollToPage(pageIndex);
+        }
+        return;
       }
     }
+  }
 
-    const hasUndo = Array.from(visited).some((id) => (counterUndoHistoryRef.current[id] ?? []).length > 0);
-    if (!hasUndo) {
+  function undoCounter(counterId: string) {
+    const result = undoLatestCounterChange(counters, connections, counterEvents, counterId);
+    if (!result) {
       return;
     }
+    const undoneIds = new Set(result.undoneEventIds);
+    setCounters(result.counters);
+    followChecklistCounter(result.counters);
+    setCounterEvents((prev) => prev.map((event) => (undoneIds.has(event.id) ? { ...event, undone: true } : event)));
+    void markCounterEventsUndoneMutation({ projectId: params.projectId, eventIds: result.undoneEventIds }).catch(
+      () => undefined
+    );
+  }
+
+  function openCounterDetail(counter: KnitCounter) {
+    closeAllPanels();
+    setFocusCounterId(counter.id);
+    setDetailCounterId(counter.id);
+  }
 
+  function updateCounterRepeatLength(counterId: string, repeatLength: number | null) {
     setCounters((prev) =>
-      prev.map((item) =>
-        visited.has(item.id)
-          ? (() => {
-              const stack = counterUndoHistoryRef.current[item.id] ?? [];
-              if (!stack.length) {
-                return item;
-              }
-              const previousValue = stack[stack.length - 1];
-              counterUndoHistoryRef.current[item.id] = stack.slice(0, -1);
-              return {
-                ...item,
-                value: previousValue
-              };
-            })()
-          : item
-      )
+      prev.map((item) => {
+        if (item.id !== counterId) {
+          return item;
+        }
+        const position = counterPosition(item);
+        return withCounterPosition({ ...item, repeatLength: repeatLength ?? undefined, repeatCount: undefined }, position);
+      })
+    );
+  }
+
+  function setCounterPinned(counterId: string, pinned: boolean) {
+    setCounters((prev) =>
+      prev.map((item) => (item.id === counterId ? { ...item, pinned: pinned || undefined } : item))
+    );
+  }
+
+  function updateCounterTarget(
+    counterId: string,
+    updates: Partial<Pick<KnitCounter, "target" | "startValue" | "targetAnchorId">>
+  ) {
+    setCounters((prev) => prev.map((item) => (item.id === counterId ? { ...item, ...updates } : item)));
+  }
+
+  function resetCounterToStart(counterId: string) {
+    const current = counters.find((item) => item.id === counterId);
+    if (!current) {
+      return;
+    }
+    const next = counters.map((item) =>
+      item.id === counterId ? withCounterPosition(item, item.startValue ?? 0) : item
+    );
+    setCounters(next);
+    recordCounterChanges(next, counterId);
+  }
+
+  function updateConnectionRule(connectionId: string, mode: ConnectionMode, amount?: number) {
+    setConnections((prev) =>
+      prev.map((item) => {
+        if (item.id !== connectionId) {
+          return item;
+        }
+        if (mode === "ratio") {
+          return { ...item, mode, ratio: Math.max(1, Math.floor(amount ?? item.ratio ?? 2)), multiplier: undefined };
+        }
+        if (mode === "multiplier") {
+          return { ...item, mode, multiplier: Math.max(1, Math.floor(amount ?? item.multiplier ?? 1)), ratio: undefined };
+        }
+        return { ...item, mode, ratio: undefined, multiplier: undefined };
+      })
     );
   }
 
+  function removeConnection(connection: CounterConnection) {
+    setConnections((prev) => prev.filter((item) => item.id !== connection.id));
+    const from = counterById.get(connection.fromCounterId)?.label ?? "counter";
+    const to = counterById.get(connection.toCounterId)?.label ?? "counter";
+    showToast(`Unlinked ${from} → ${to}`, {
+      actionLabel: "Undo",
+      onAction: () => setConnections((prev) => [...prev, connection])
+    });
+  }
+
   function startCounterTitleEdit(counter: KnitCounter) {
     setEditingCounterId(counter.id);
     setEditingCounterTitle(counter.label);
@@ -2061,8 +3831,40 @@ export default function ProjectEditorPage({
     setEditingCounterTitle("");
   }
 
-  function undoLatestAnnotation() {
-    setHighlights((prev) => (prev.length ? prev.slice(0, -1) : prev));
+  function restoreWorkspaceSnapshot(snapshot: EditableWorkspace) {
+    setHighlights(snapshot.annotations);
+    setConnections(snapshot.connections);
+    setAnchors(snapshot.anchors);
+    setReferenceCapture(snapshot.referenceCapture);
+    setCalculator(snapshot.calculator);
+    setShapingRules(snapshot.shapingRules);
+    setLayers(snapshot.layers);
+    setChecklist(snapshot.checklist);
+    setGlossary(snapshot.glossary);
+    setHiddenPages(snapshot.hiddenPages);
+    setPageTransforms(snapshot.pageTransforms);
+    setCounters(snapshot.counters);
+    // Counter moves go into the history log like any other correction, so
+    // pace and per-counter undo stay in step with what's on screen.
+    const moved = snapshot.counters.find((counter) => {
+      const current = counters.find((item) => item.id === counter.id);
+      return current && counterPosition(current) !== counterPosition(counter);
+    });
+    if (moved) {
+      recordCounterChanges(snapshot.counters, moved.id);
+    }
+  }
+
+  function undoWorkspace() {
+    if (!workspaceHistory.undo()) {
+      showToast("Nothing to undo", { duration: 1500 });
+    }
+  }
+
+  function redoWorkspace() {
+    if (!workspaceHistory.redo()) {
+      showToast("Nothing to redo", { duration: 1500 });
+    }
   }
 
   function toggleCalculatorPopover() {
@@ -2077,6 +3879,36 @@ export default function ProjectEditorPage({
     setIsZoomPopoverOpen(willOpen);
   }
 
+  function toggleShapingPanel() {
+    const willOpen = !isShapingOpen;
+    closeAllPanels();
+    if (willOpen && !counters.some((counter) => counter.id === shapingDraft.counterId)) {
+      const preferred =
+        counters.find((counter) => counter.id === focusCounterId) ??
+        counters.find((counter) => counter.type === "row") ??
+        counters[0];
+      setShapingDraft((prev) => ({ ...prev, counterId: preferred?.id ?? "" }));
+    }
+    setIsShapingOpen(willOpen);
+  }
+
+  function addShapingRule() {
+    const rule = buildShapingRule(shapingDraft, shapingDraft.counterId);
+    if (!rule || !counterById.has(rule.counterId)) {
+      return;
+    }
+    setShapingRules((prev) => [...prev, rule]);
+    setShapingDraft((prev) => ({ ...EMPTY_SHAPING_DRAFT, counterId: prev.counterId, kind: prev.kind }));
+  }
+
+  function deleteShapingRule(rule: ShapingRule) {
+    setShapingRules((prev) => prev.filter((item) => item.id !== rule.id));
+    showToast(`Removed "${rule.label}"`, {
+      actionLabel: "Undo",
+      onAction: () => setShapingRules((prev) => [...prev, rule])
+    });
+  }
+
   function toggleIndexPopover() {
     const willOpen = !isIndexPopoverOpen;
     closeAllPanels();
@@ -2098,34 +3930,286 @@ export default function ProjectEditorPage({
     setIsCounterMenuOpen(willOpen);
   }
 
-  function toggleMoreMenu() {
-    const willOpen = !isMoreOpen;
+  function toggleCounterGraph() {
+    const willOpen = !isCounterGraphOpen;
     closeAllPanels();
-    setIsMoreOpen(willOpen);
+    setIsCounterGraphOpen(willOpen);
   }
 
-  function onReferenceButtonClick() {
-    const wasReferenceOpen = isReferencePopoverOpen;
-    const wasSelecting = isSelectingReference;
+  function updateToolStyle(tool: StrokeTool, updates: Partial<ToolStyles[StrokeTool]>) {
+    setToolStyles((prev) => ({ ...prev, [tool]: { ...prev[tool], ...updates } }));
+  }
+
+  function toggleGlossaryPanel() {
+    const willOpen = !isGlossaryOpen;
     closeAllPanels();
+    setIsGlossaryOpen(willOpen);
+  }
 
-    if (wasSelecting) {
-      setIsSelectingReference(false);
-      setDraftReferenceRect(null);
-      drawingRef.current = null;
-      return;
-    }
+  function startGlossaryPick() {
+    closeAllPanels();
+    setGlossaryPopup(null);
+    setIsPickingGlossary(true);
+    showToast("Drag a box around the pattern's abbreviations section.", {
+      actionLabel: "Cancel",
+      onAction: () => {
+        setIsPickingGlossary(false);
+        setIsGlossaryOpen(true);
+      },
+      duration: 8000
+    });
+  }
 
-    if (!referenceCapture) {
-      setIsSelectingReference(true);
+  function addGlossaryEntry() {
+    const term = glossaryTermDraft.trim();
+    const definition = glossaryDefinitionDraft.trim();
+    if (!term || !definition) {
       return;
     }
+    setGlossary((prev) => mergeGlossary(prev, [{ term, definition }]));
+    setGlossaryTermDraft("");
+    setGlossaryDefinitionDraft("");
+  }
 
-    setIsReferencePopoverOpen(!wasReferenceOpen);
+  function removeGlossaryEntry(term: string) {
+    const key = normalizeGlossaryTerm(term);
+    setGlossary((prev) => prev.filter((entry) => normalizeGlossaryTerm(entry.term) !== key));
   }
 
-  function handleViewerPointerDown(event: React.PointerEvent<HTMLDivElement>) {
-    if ((mode !== "pan" && mode !== "highlight") || isSelectingReference || event.pointerType !== "touch") {
+  // From the long-press popup: an unknown word goes into the add form.
+  function defineGlossaryTerm(word: string) {
+    closeAllPanels();
+    setGlossaryPopup(null);
+    setGlossaryTermDraft(word);
+    setGlossaryDefinitionDraft("");
+    setIsGlossaryOpen(true);
+  }
+
+  function defineWordAt(pageIndex: number, clientX: number, clientY: number) {
+    glossaryPressRef.current = null;
+    const pageElement = pageRefs.current[pageIndex];
+    const lines = pageTextLinesRef.current[pageIndex];
+    if (!pageElement) {
+      return;
+    }
+    // The press became a long-press, so its release isn't a checklist tap.
+    checklistTapRef.current = null;
+    if (!lines) {
+      showToast("Still reading this page's text…");
+      return;
+    }
+    const point = pointOnPage(pageElement, pageIndex, clientX, clientY);
+    const x = point.x;
+    const line = textLineAtPoint(lines, x, point.y);
+    const word = line ? wordAtOffset(line.text, textLineOffsetAt(line, x)) : null;
+    if (!line || !word) {
+      return;
+    }
+    tapHaptic();
+    setGlossaryPopup({ pageIndex, x, y: line.y + line.height, word });
+  }
+
+  function toggleSearchPanel() {
+    const willOpen = !isSearchOpen;
+    closeAllPanels();
+    setIsSearchOpen(willOpen);
+  }
+
+  function updateSearchQuery(query: string) {
+    setSearchQuery(query);
+    setActiveSearchHitIndex(0);
+  }
+
+  function goToSearchHit(index: number) {
+    if (searchHits.length === 0) {
+      return;
+    }
+    const wrapped = (index + searchHits.length) % searchHits.length;
+    setActiveSearchHitIndex(wrapped);
+    const hit = searchHits[wrapped];
+    scrollToPagePoint(hit.pageIndex, hit.x + hit.width / 2, hit.y);
+  }
+
+  function togglePagesPanel() {
+    const willOpen = !isPagesOpen;
+    closeAllPanels();
+    setIsPageJumpOpen(false);
+    setIsPagesOpen(willOpen);
+  }
+
+  function togglePageLayoutPanel() {
+    const willOpen = !isPageLayoutOpen;
+    closeAllPanels();
+    setIsPageLayoutOpen(willOpen);
+  }
+
+  function rotateCurrentPage(quarterTurns: number) {
+    setPageTransforms((prev) => rotatePage(prev, currentPageNumber - 1, quarterTurns));
+  }
+
+  function setCurrentPageCrop(crop: PageCrop | undefined) {
+    setPageTransforms((prev) => cropPage(prev, currentPageNumber - 1, crop));
+  }
+
+  function resetCurrentPageLayout() {
+    setPageTransforms((prev) => resetPage(prev, currentPageNumber - 1));
+  }
+
+  function startCropPick() {
+    closeAllPanels();
+    setIsPickingCrop(true);
+    showToast(`Drag a box around the part of page ${currentPageNumber} to keep.`, {
+      actionLabel: "Cancel",
+      onAction: () => {
+        setIsPickingCrop(false);
+        setIsPageLayoutOpen(true);
+      },
+      duration: 8000
+    });
+  }
+
+  // Reads the page's margins from its on-screen canvas when it's painted,
+  // otherwise from an off-screen render.
+  async function findPageContentBox(pageIndex: number): Promise<PageCrop | null> {
+    const pageMetric = pages[pageIndex];
+    if (!pdfDoc || !pageMetric) {
+      return null;
+    }
+    const painted = renderedZoomsRef.current.has(pageIndex) ? canvasRefs.current[pageIndex] : null;
+    const canvas = painted ?? (await renderPageCanvas(pdfDoc, pageIndex, TRIM_RENDER_WIDTH).catch(() => null));
+    return canvas ? findContentBox(canvas, pageMetric) : null;
+  }
+
+  async function trimCurrentPage() {
+    const crop = await findPageContentBox(currentPageNumber - 1);
+    if (!crop) {
+      showToast("No blank margins to trim on this page.");
+      return;
+    }
+    setCurrentPageCrop(crop);
+  }
+
+  async function trimAllPages() {
+    setIsTrimmingPages(true);
+    const crops = new Map<number, PageCrop>();
+    try {
+      for (let pageIndex = 0; pageIndex < pages.length; pageIndex += 1) {
+        if (hiddenPages.includes(pageIndex)) {
+          continue;
+        }
+        const crop = await findPageContentBox(pageIndex);
+        if (crop) {
+          crops.set(pageIndex, crop);
+        }
+      }
+    } finally {
+      setIsTrimmingPages(false);
+    }
+    setPageTransforms((prev) => cropPages(prev, crops));
+    showToast(
+      crops.size === 0
+        ? "No blank margins to trim."
+        : `Trimmed the margins of ${crops.size} ${crops.size === 1 ? "page" : "pages"}.`
+    );
+  }
+
+  function toggleHiddenPage(pageIndex: number) {
+    const hiding = !hiddenPages.includes(pageIndex);
+    tapHaptic();
+    setHiddenPages((prev) =>
+      hiding ? [...prev, pageIndex].sort((left, right) => left - right) : prev.filter((index) => index !== pageIndex)
+    );
+    if (hiding) {
+      showToast(`Page ${pageIndex + 1} hidden from the pattern.`, {
+        actionLabel: "Show",
+        onAction: () => setHiddenPages((prev) => prev.filter((index) => index !== pageIndex))
+      });
+    }
+  }
+
+  function toggleSizePanel() {
+    const willOpen = !isSizeOpen;
+    closeAllPanels();
+    setIsSizeOpen(willOpen);
+  }
+
+  function toggleLayersPanel() {
+    const willOpen = !isLayersOpen;
+    closeAllPanels();
+    setIsLayersOpen(willOpen);
+  }
+
+  function addLayer() {
+    const layer: AnnotationLayer = { id: createId("layer"), name: `Layer ${layers.length + 1}`, visible: true, locked: false };
+    setLayers((prev) => [...prev, layer]);
+    setActiveLayerId(layer.id);
+  }
+
+  function updateLayer(layerId: string, updates: Partial<Omit<AnnotationLayer, "id">>) {
+    setLayers((prev) => prev.map((layer) => (layer.id === layerId ? { ...layer, ...updates } : layer)));
+  }
+
+  function deleteLayer(layer: AnnotationLayer) {
+    if (layers.length <= 1) {
+      return;
+    }
+    const remaining = layers.filter((item) => item.id !== layer.id);
+    const markCount = highlights.filter((item) => annotationLayerId(item, layers) === layer.id).length;
+    // Marks on the deleted layer go with it; old untagged marks belong to the
+    // bottom layer, so they're tagged first in case that's the one removed.
+    setHighlights((prev) =>
+      prev
+        .map((item) => (item.layerId ? item : { ...item, layerId: annotationLayerId(item, layers) }))
+        .filter((item) => item.layerId !== layer.id)
+    );
+    setLayers(remaining);
+    if (activeLayer.id === layer.id) {
+      setActiveLayerId(remaining[remaining.length - 1].id);
+    }
+    showToast(`Deleted "${layer.name}"${markCount ? ` and ${markCount} mark${markCount === 1 ? "" : "s"}` : ""}`, {
+      actionLabel: "Undo",
+      onAction: undoWorkspace
+    });
+  }
+
+  function toggleKeysPanel() {
+    const willOpen = !isKeysOpen;
+    closeAllPanels();
+    setIsKeysOpen(willOpen);
+  }
+
+  function removeKeyBinding(action: KeyAction, key: string) {
+    setKeyBindings({ ...keyBindings, [action]: keyBindings[action].filter((existing) => existing !== key) });
+  }
+
+  function toggleMoreMenu() {
+    const willOpen = !isMoreOpen;
+    closeAllPanels();
+    setIsMoreOpen(willOpen);
+  }
+
+  function onReferenceButtonClick() {
+    const wasReferenceOpen = isReferencePopoverOpen;
+    const wasSelecting = isSelectingReference;
+    closeAllPanels();
+
+    if (wasSelecting) {
+      setIsSelectingReference(false);
+      setDraftReferenceRect(null);
+      drawingRef.current = null;
+      return;
+    }
+
+    if (!referenceCapture) {
+      setIsSelectingReference(true);
+      return;
+    }
+
+    setIsReferencePopoverOpen(!wasReferenceOpen);
+  }
+
+  function handleViewerPointerDown(event: React.PointerEvent<HTMLDivElement>) {
+    if (isSelectingRegion || event.pointerType !== "touch") {
       return;
     }
 
@@ -2167,7 +4251,7 @@ export default function ProjectEditorPage({
   }
 
   function handleViewerPointerMove(event: React.PointerEvent<HTMLDivElement>) {
-    if ((mode !== "pan" && mode !== "highlight") || isSelectingReference || event.pointerType !== "touch") {
+    if (isSelectingRegion || event.pointerType !== "touch") {
       return;
     }
 
@@ -2260,9 +4344,9 @@ export default function ProjectEditorPage({
         pdfMimeType: project.pdfBlob.type || "application/pdf"
       };
 
-      downloadProjectBackupFile(
+      downloadFile(
         `${project.metadata.name || project.metadata.sourceFileName}.whichstitch.json`,
-        JSON.stringify(backup)
+        new Blob([JSON.stringify(backup)], { type: "application/json" })
       );
     } catch {
       setSaveStatus("error");
@@ -2271,8 +4355,49 @@ export default function ProjectEditorPage({
     }
   }
 
+  async function handleExportAnnotatedPdf() {
+    if (!project || !pdfDoc) {
+      return;
+    }
+
+    setIsExportingPdf(true);
+    try {
+      const blob = await exportAnnotatedPdf({
+        pdfDoc,
+        annotations: highlights,
+        layers,
+        counters,
+        anchors,
+        strokeColor,
+        onProgress: (pagesDone, pageCount) => {
+          showToast(`Drawing page ${pagesDone} of ${pageCount}…`, { duration: 60000 });
+        }
+      });
+      const baseName = (project.metadata.name || project.metadata.sourceFileName).replace(/\.pdf$/i, "");
+      downloadFile(`${baseName} (annotated).pdf`, blob);
+      showToast("Annotated PDF exported.");
+    } catch {
+      showToast("Couldn't export the annotated PDF. Try again.");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  }
+
+  const detailCounter = detailCounterId ? counterById.get(detailCounterId) ?? null : null;
+  const detailCounterPace = detailCounter
+    ? countersPerHour(counterEvents, knitSessions, new Set([detailCounter.id]))
+    : null;
+  const detailCounterEta = detailCounter ? targetEtaMs(detailCounter, detailCounterPace) : null;
+  const detailCounterEvents = detailCounter
+    ? counterEvents.filter((event) => event.counterId === detailCounter.id).slice(-40).reverse()
+    : [];
+  // Dismissing hides the banner for this row only; the next due row brings it back.
+  const dueShapingKey = dueShaping.map((event) => `${event.rule.id}@${event.row}`).join("|");
+  const shapingDraftRule = buildShapingRule(shapingDraft, shapingDraft.counterId);
   const viewerTopPadding = toolbarHeight + 14;
   const annotateScrollbarTop = toolbarHeight + 16;
+  const isSelectTool = mode === "highlight" && drawTool === "select";
+  const activeStrokeTool: StrokeTool | null = STROKE_TOOLS.find((tool) => tool === drawTool) ?? null;
   const activeAnnotateTool = ANNOTATE_TOOLS.find((tool) => tool.id === drawTool) ?? ANNOTATE_TOOLS[0];
 
   if (projectStatus === "loading") {
@@ -2341,10 +4466,14 @@ export default function ProjectEditorPage({
         onBack={() => router.push("/")}
         theme={theme}
         onToggleTheme={() => setTheme((prev) => (prev === "dark" ? "light" : "dark"))}
+        canUndo={workspaceHistory.canUndo}
+        canRedo={workspaceHistory.canRedo}
+        onUndo={undoWorkspace}
+        onRedo={redoWorkspace}
         mode={mode}
         onSetMode={(nextMode) => {
           setMode(nextMode);
-          if (nextMode === "pan") {
+          if (nextMode !== "highlight") {
             setIsToolsOpen(false);
           }
         }}
@@ -2656,6 +4785,32 @@ export default function ProjectEditorPage({
                 ))}
               </ul>
             )}
+            {pdfOutline && pdfOutline.length > 0 ? (
+              <>
+                <div className="index-head index-outline-head">
+                  <h3 className="index-title">In the PDF</h3>
+                  <button type="button" className="index-item-btn" onClick={convertOutlineToAnchors}>
+                    Convert to bookmarks
+                  </button>
+                </div>
+                <ul className="index-list">
+                  {pdfOutline.map((item) => (
+                    <li key={item.id} className="index-item">
+                      <button
+                        type="button"
+                        className="index-item-go"
+                        style={{ marginLeft: `${Math.min(item.depth, 4) * 0.75}rem` }}
+                        onClick={() => goToPdfDestination(item.destination, false)}
+                        title={`Jump to ${item.title}`}
+                      >
+                        <span className="index-item-name">{item.title}</span>
+                        <span className="index-item-page">p.{item.destination.pageIndex + 1}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
         </Panel>
 
         <Panel
@@ -2675,8 +4830,9 @@ export default function ProjectEditorPage({
                 onClick={() => {
                   setDrawTool(tool.id);
                   // On phones the sheet covers the page; picking a tool is a
-                  // clear "I'm ready to draw" so it dismisses itself.
-                  if (window.matchMedia("(max-width: 640px)").matches) {
+                  // clear "I'm ready to draw" so it dismisses itself. Stamps
+                  // still need one picked from the palette below.
+                  if (tool.id !== "stamp" && window.matchMedia("(max-width: 640px)").matches) {
                     setIsToolsOpen(false);
                   }
                 }}
@@ -2705,9 +4861,168 @@ export default function ProjectEditorPage({
               ))}
             </div>
           </div>
-          <button type="button" className="tool-undo" onClick={undoLatestAnnotation} disabled={!highlights.length}>
-            Undo last mark
-          </button>
+          {drawTool === "stamp" ? (
+            <div className="tool-section">
+              <span className="tool-section-label">Stamps</span>
+              <input
+                type="search"
+                className="stamp-search"
+                value={stampQuery}
+                onChange={(event) => setStampQuery(event.target.value)}
+                placeholder="Search k2tog, cable, yo…"
+                aria-label="Search stamps"
+              />
+              <div className="stamp-grid" role="group" aria-label="Chart stamps">
+                {searchChartSymbols(stampQuery).map((symbol) => (
+                  <button
+                    key={symbol.id}
+                    type="button"
+                    className={activeStampId === symbol.id ? "stamp-btn active" : "stamp-btn"}
+                    onClick={() => setActiveStampId(symbol.id)}
+                    aria-pressed={activeStampId === symbol.id}
+                    aria-label={symbol.label}
+                    title={symbol.label}
+                  >
+                    <StampGlyph stamp={symbol.id} color="currentColor" width={symbol.cells * 20} height={20} />
+                    <span className="stamp-btn-label">{symbol.abbreviation}</span>
+                  </button>
+                ))}
+                {searchCustomStamps(customStamps, stampQuery).map((stamp) => (
+                  <div key={stamp.id} className="stamp-custom">
+                    <button
+                      type="button"
+                      className={activeStampId === stamp.id ? "stamp-btn active" : "stamp-btn"}
+                      onClick={() => setActiveStampId(stamp.id)}
+                      aria-pressed={activeStampId === stamp.id}
+                      aria-label={stamp.text}
+                      title={stamp.text}
+                    >
+                      <StampGlyph
+                        text={stamp.text}
+                        color="currentColor"
+                        width={customStampCells(stamp.text) * 20}
+                        height={20}
+                      />
+                    </button>
+                    <button
+                      type="button"
+                      className="stamp-custom-remove"
+                      onClick={() => removeCustomStamp(stamp.id)}
+                      aria-label={`Remove ${stamp.text} stamp`}
+                      title="Remove from palette"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <form
+                className="stamp-add"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  addCustomStamp();
+                }}
+              >
+                <input
+                  type="text"
+                  value={customStampDraft}
+                  onChange={(event) => setCustomStampDraft(event.target.value)}
+                  maxLength={MAX_CUSTOM_STAMP_LENGTH}
+                  placeholder="Custom stamp, e.g. M1L"
+                  aria-label="Custom stamp text"
+                />
+                <button type="submit" className="index-item-btn" disabled={!customStampDraft.trim()}>
+                  Add
+                </button>
+              </form>
+            </div>
+          ) : null}
+          {activeStrokeTool ? (
+            <div className="tool-section">
+              <span className="tool-section-label">Stroke</span>
+              <label className="tool-slider">
+                <span>Width</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={12}
+                  step={0.5}
+                  value={toolStyles[activeStrokeTool].width}
+                  onChange={(event) => updateToolStyle(activeStrokeTool, { width: Number(event.target.value) })}
+                  aria-label="Stroke width"
+                />
+                <output>{toolStyles[activeStrokeTool].width}px</output>
+              </label>
+              <label className="tool-slider">
+                <span>Opacity</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={toolStyles[activeStrokeTool].opacity}
+                  onChange={(event) => updateToolStyle(activeStrokeTool, { opacity: Number(event.target.value) })}
+                  aria-label="Stroke opacity"
+                />
+                <output>{Math.round(toolStyles[activeStrokeTool].opacity * 100)}%</output>
+              </label>
+              <div className="tool-dash-row" role="group" aria-label="Stroke pattern">
+                {STROKE_DASHES.map((dash) => (
+                  <button
+                    key={dash.id}
+                    type="button"
+                    className={toolStyles[activeStrokeTool].dash === dash.id ? "tool-dash-btn active" : "tool-dash-btn"}
+                    onClick={() => updateToolStyle(activeStrokeTool, { dash: dash.id })}
+                    aria-pressed={toolStyles[activeStrokeTool].dash === dash.id}
+                    aria-label={dash.label}
+                    title={dash.label}
+                  >
+                    <svg viewBox="0 0 48 8" aria-hidden="true" focusable="false">
+                      <line
+                        x1={4}
+                        y1={4}
+                        x2={44}
+                        y2={4}
+                        strokeWidth={Math.min(6, toolStyles[activeStrokeTool].width)}
+                        strokeDasharray={strokeDashArray(dash.id, Math.min(6, toolStyles[activeStrokeTool].width))}
+                        strokeLinecap="round"
+                        opacity={toolStyles[activeStrokeTool].opacity}
+                      />
+                    </svg>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+          <div className="tool-section">
+            <span className="tool-section-label">Layer</span>
+            <div className="tool-layer-row">
+              <select
+                className="tool-layer-select"
+                value={activeLayer.id}
+                onChange={(event) => setActiveLayerId(event.target.value)}
+                aria-label="Layer to draw on"
+              >
+                {[...layers].reverse().map((layer) => (
+                  <option key={layer.id} value={layer.id}>
+                    {layer.name}
+                    {layer.locked ? " (locked)" : !layer.visible ? " (hidden)" : ""}
+                  </option>
+                ))}
+              </select>
+              <button type="button" className="index-item-btn" onClick={toggleLayersPanel}>
+                Layers…
+              </button>
+            </div>
+          </div>
+          <div className="tool-history">
+            <button type="button" className="tool-undo" onClick={undoWorkspace} disabled={!workspaceHistory.canUndo}>
+              Undo
+            </button>
+            <button type="button" className="tool-undo" onClick={redoWorkspace} disabled={!workspaceHistory.canRedo}>
+              Redo
+            </button>
+          </div>
         </Panel>
 
         <Panel
@@ -2718,6 +5033,13 @@ export default function ProjectEditorPage({
           title="Counters"
           className="counters-panel"
         >
+          {activeSession || paceByType.row !== null || paceByType.stitch !== null ? (
+            <p className="counter-pace">
+              {activeSession ? `This session ${formatKnitDuration(sessionDurationMs(activeSession))}` : "Pace"}
+              {paceByType.row !== null ? ` · ${Math.round(paceByType.row)} rows/h` : ""}
+              {paceByType.stitch !== null ? ` · ${Math.round(paceByType.stitch)} sts/h` : ""}
+            </p>
+          ) : null}
           {counters.length > 0 ? (
             <ul className="counter-quick-list">
               {counters.map((counter) => (
@@ -2732,9 +5054,21 @@ export default function ProjectEditorPage({
                     aria-label={`Find ${counter.label} on the page`}
                   >
                     <span className="counter-quick-name">{counter.label}</span>
-                    <span className="counter-quick-kind">{counter.type}</span>
+                    <span className="counter-quick-kind">
+                      {counter.type}
+                      {counter.repeatLength ? ` · ${counter.repeatLength}-repeat` : ""}
+                    </span>
                   </button>
                   <div className="counter-quick-controls">
+                    <button
+                      type="button"
+                      className="counter-link-btn"
+                      onClick={() => openCounterDetail(counter)}
+                      aria-label={`${counter.label} settings`}
+                      title="Counter settings"
+                    >
+                      ⚙
+                    </button>
                     <button
                       type="button"
                       className="counter-link-btn"
@@ -2780,7 +5114,894 @@ export default function ProjectEditorPage({
             <button type="button" className="counter-add-btn" onClick={() => addCounter("stitch")}>
               <span aria-hidden="true">▦</span> Stitch counter
             </button>
+            {counters.length > 1 ? (
+              <button type="button" className="counter-add-btn counter-graph-open" onClick={toggleCounterGraph}>
+                <span aria-hidden="true">⛓</span> Link map
+              </button>
+            ) : null}
+          </div>
+        </Panel>
+
+        <Panel
+          open={isCounterGraphOpen}
+          onClose={() => setIsCounterGraphOpen(false)}
+          anchorRef={counterButtonRef}
+          width={400}
+          title="Link map"
+          className="counter-graph-panel"
+        >
+          <CounterGraph
+            counters={counters}
+            connections={connections}
+            onLink={(fromCounterId, toCounterId) => linkCounters(fromCounterId, toCounterId)}
+            onRetarget={(connection, toCounterId) =>
+              linkCounters(connection.fromCounterId, toCounterId, connection.id)
+            }
+            onRemove={removeConnection}
+            onOpenCounter={openCounterDetail}
+          />
+        </Panel>
+
+        <Panel
+          open={detailCounter !== null}
+          onClose={() => setDetailCounterId(null)}
+          anchorRef={counterButtonRef}
+          width={340}
+          title={detailCounter?.label ?? "Counter"}
+          className="counter-detail-panel"
+        >
+          {detailCounter ? (
+            <>
+              <section className="counter-detail-section">
+                <label className="counter-detail-field counter-detail-toggle">
+                  <span>Pin to screen</span>
+                  <input
+                    type="checkbox"
+                    checked={detailCounter.pinned ?? false}
+                    onChange={(event) => setCounterPinned(detailCounter.id, event.target.checked)}
+                    aria-label={`Pin ${detailCounter.label} to the screen`}
+                  />
+                </label>
+                <p className="counter-detail-note">
+                  Docks the counter in a strip above the toolbar so it stays in reach on every page. Unpinning puts it
+                  back where it was.
+                </p>
+              </section>
+              <section className="counter-detail-section">
+                <label className="counter-detail-field">
+                  <span>Repeat length</span>
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    placeholder="Off"
+                    value={detailCounter.repeatLength ?? ""}
+                    onChange={(event) => {
+                      const parsed = Math.floor(Number(event.target.value));
+                      updateCounterRepeatLength(detailCounter.id, parsed >= 1 ? parsed : null);
+                    }}
+                    aria-label={`${detailCounter.label} repeat length`}
+                  />
+                </label>
+                <p className="counter-detail-note">
+                  Counts 1 to {detailCounter.repeatLength ?? "N"}, then wraps back to 1 and advances linked counters once
+                  per full repeat. Leave empty for a plain counter.
+                </p>
+              </section>
+              <section className="counter-detail-section">
+                <label className="counter-detail-field">
+                  <span>Start at</span>
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    placeholder="0"
+                    value={detailCounter.startValue ?? ""}
+                    onChange={(event) => {
+                      const parsed = Math.floor(Number(event.target.value));
+                      updateCounterTarget(detailCounter.id, {
+                        startValue: event.target.value !== "" && parsed > 0 ? parsed : undefined
+                      });
+                    }}
+                    aria-label={`${detailCounter.label} starting value`}
+                  />
+                </label>
+                <label className="counter-detail-field">
+                  <span>Target</span>
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    placeholder="None"
+                    value={detailCounter.target ?? ""}
+                    onChange={(event) => {
+                      const parsed = Math.floor(Number(event.target.value));
+                      updateCounterTarget(detailCounter.id, { target: parsed >= 1 ? parsed : undefined });
+                    }}
+                    aria-label={`${detailCounter.label} target`}
+                  />
+                </label>
+                <label className="counter-detail-field">
+                  <span>When reached, jump to</span>
+                  <select
+                    value={detailCounter.targetAnchorId ?? ""}
+                    onChange={(event) =>
+                      updateCounterTarget(detailCounter.id, { targetAnchorId: event.target.value || undefined })
+                    }
+                    disabled={detailCounter.target === undefined || anchors.length === 0}
+                    aria-label={`${detailCounter.label} next section bookmark`}
+                  >
+                    <option value="">{anchors.length ? "Stay here" : "No bookmarks yet"}</option>
+                    {anchors.map((anchor) => (
+                      <option key={anchor.id} value={anchor.id}>
+                        {anchor.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <p className="counter-detail-note">
+                  {detailCounter.repeatLength
+                    ? "Start and target count total rows across every repeat. "
+                    : ""}
+                  Reaching the target buzzes, shows a note, and can scroll to the next section&apos;s bookmark.
+                </p>
+                {detailCounter.target !== undefined ? (
+                  <p className="counter-pace">
+                    {detailCounterPace === null
+                      ? "Pace shows up after a few minutes of counting."
+                      : `About ${Math.round(detailCounterPace)} ${detailCounter.type === "row" ? "rows" : "stitches"}/hour`}
+                    {detailCounterEta !== null ? ` · ~${formatKnitDuration(detailCounterEta)} of knitting to go` : ""}
+                  </p>
+                ) : null}
+                <button
+                  type="button"
+                  className="toolbar-btn counter-detail-reset"
+                  onClick={() => resetCounterToStart(detailCounter.id)}
+                  disabled={counterPosition(detailCounter) === (detailCounter.startValue ?? 0)}
+                >
+                  Reset to {detailCounter.startValue ?? 0}
+                </button>
+              </section>
+              <section className="counter-detail-section">
+                <h3 className="counter-detail-heading">Advances</h3>
+                {connections.some((connection) => connection.fromCounterId === detailCounter.id) ? (
+                  <ul className="counter-link-list">
+                    {connections
+                      .filter((connection) => connection.fromCounterId === detailCounter.id)
+                      .map((connection) => (
+                        <li key={connection.id} className="counter-link-rule">
+                          <span className="counter-link-target">
+                            {counterById.get(connection.toCounterId)?.label ?? "Counter"}
+                          </span>
+                          <select
+                            value={connection.mode ?? "each"}
+                            onChange={(event) => updateConnectionRule(connection.id, event.target.value as ConnectionMode)}
+                            aria-label="Link rule"
+                          >
+                            <option value="each">+1 each</option>
+                            <option value="ratio">+1 every…</option>
+                            <option value="multiplier">× amount</option>
+                          </select>
+                          {connection.mode === "ratio" || connection.mode === "multiplier" ? (
+                            <input
+                              type="number"
+                              inputMode="numeric"
+                              min={1}
+                              value={connection.mode === "ratio" ? connection.ratio ?? 2 : connection.multiplier ?? 1}
+                              onChange={(event) => {
+                                const amount = Number(event.target.value);
+                                updateConnectionRule(connection.id, connection.mode ?? "each", amount || undefined);
+                              }}
+                              aria-label={connection.mode === "ratio" ? "Source ticks per step" : "Steps per source tick"}
+                            />
+                          ) : null}
+                          <button
+                            type="button"
+                            className="index-item-btn index-item-btn-danger"
+                            onClick={() => removeConnection(connection)}
+                            aria-label="Remove link"
+                          >
+                            ✕
+                          </button>
+                        </li>
+                      ))}
+                  </ul>
+                ) : (
+                  <p className="counter-detail-note">
+                    Not linked. Tap ⛓ in the Counters panel to have this counter advance another one.
+                  </p>
+                )}
+                {connections.some((connection) => connection.toCounterId === detailCounter.id) ? (
+                  <p className="counter-detail-note">
+                    Advanced by{" "}
+                    {connections
+                      .filter((connection) => connection.toCounterId === detailCounter.id)
+                      .map(
+                        (connection) =>
+                          `${counterById.get(connection.fromCounterId)?.label ?? "counter"} (${describeConnection(connection)})`
+                      )
+                      .join(", ")}
+                    . Stepping back unwinds linked counters too.
+                  </p>
+                ) : null}
+              </section>
+              <section className="counter-detail-section">
+                <div className="counter-history-head">
+                  <h3 className="counter-detail-heading">History</h3>
+                  <button
+                    type="button"
+                    className="index-item-btn"
+                    onClick={() => undoCounter(detailCounter.id)}
+                    disabled={!detailCounterEvents.some((event) => !event.undone)}
+                  >
+                    Undo last
+                  </button>
+                </div>
+                {detailCounterEvents.length === 0 ? (
+                  <p className="counter-detail-note">Every change is logged here with its time, on every device.</p>
+                ) : (
+                  <ol className="counter-history">
+                    {detailCounterEvents.map((event) => (
+                      <li key={event.id} className={event.undone ? "undone" : undefined}>
+                        <span className="counter-history-time">{formatCounterEventTime(event.at)}</span>
+                        <span className="counter-history-delta">{event.delta > 0 ? `+${event.delta}` : `−${-event.delta}`}</span>
+                        <span className="counter-history-value">
+                          {event.previousValue} → {event.value}
+                          {event.sourceCounterId ? (
+                            <small> via {counterById.get(event.sourceCounterId)?.label ?? "linked counter"}</small>
+                          ) : null}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            </>
+          ) : null}
+        </Panel>
+
+        <Panel
+          open={isShapingOpen}
+          onClose={() => setIsShapingOpen(false)}
+          anchorRef={moreButtonRef}
+          width={360}
+          title="Shaping schedule"
+          className="shaping-panel"
+        >
+          {counters.length === 0 ? (
+            <p className="index-empty">Add a row counter first — shaping rules follow its row count.</p>
+          ) : (
+            <>
+              <section className="shaping-section">
+                <h3 className="shaping-heading">Coming up</h3>
+                {upcomingShaping.length === 0 ? (
+                  <p className="index-empty">Nothing scheduled from here on.</p>
+                ) : (
+                  <ul className="shaping-list">
+                    {upcomingShaping.map((event) => (
+                      <li key={`${event.rule.id}@${event.row}`} className="shaping-event" data-due={event.rowsAway === 0}>
+                        <span className="shaping-event-row">Row {event.row}</span>
+                        <span className="shaping-event-label">
+                          {event.rule.label}
+                          <small>
+                            {event.occurrence} of {event.total} · {event.counter.label}
+                          </small>
+                        </span>
+                        <span className="shaping-event-when">
+                          {event.rowsAway === 0 ? "Now" : `in ${event.rowsAway}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <section className="shaping-section">
+                <h3 className="shaping-heading">Rules</h3>
+                {shapingRules.length === 0 ? (
+                  <p className="index-empty">
+                    Add one rule per instruction that runs &ldquo;at the same time&rdquo;, e.g. decreases every 6th row
+                    and a neck bind-off on row 30.
+                  </p>
+                ) : (
+                  <ul className="index-list">
+                    {shapingRules.map((rule) => (
+                      <li key={rule.id} className="index-item">
+                        <span className="shaping-rule-text">
+                          <strong>{rule.label}</strong>
+                          <small>
+                            {rule.kind === "rows"
+                              ? `Rows ${shapingRuleRows(rule).join(", ")}`
+                              : `Every ${rule.every} from row ${rule.startRow}, ${rule.times}×`}
+                            {" · "}
+                            {counterById.get(rule.counterId)?.label ?? "Missing counter"}
+                          </small>
+                        </span>
+                        <button
+                          type="button"
+                          className="index-item-btn index-item-btn-danger"
+                          onClick={() => deleteShapingRule(rule)}
+                          aria-label={`Delete ${rule.label}`}
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <form
+                className="shaping-section shaping-form"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  addShapingRule();
+                }}
+              >
+                <h3 className="shaping-heading">New rule</h3>
+                <input
+                  className="shaping-input"
+                  value={shapingDraft.label}
+                  onChange={(event) => setShapingDraft((prev) => ({ ...prev, label: event.target.value }))}
+                  placeholder="What to do, e.g. Dec 1 each side"
+                  aria-label="Rule instruction"
+                />
+                <div className="shaping-form-row">
+                  <select
+                    className="shaping-input"
+                    value={shapingDraft.counterId}
+                    onChange={(event) => setShapingDraft((prev) => ({ ...prev, counterId: event.target.value }))}
+                    aria-label="Counter the rule follows"
+                  >
+                    {counters.map((counter) => (
+                      <option key={counter.id} value={counter.id}>
+                        {counter.label}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="shaping-kind" role="group" aria-label="Rule type">
+                    {(
+                      [
+                        ["repeat", "Every N"],
+                        ["rows", "On rows"]
+                      ] as const
+                    ).map(([kind, label]) => (
+                      <button
+                        key={kind}
+                        type="button"
+                        className={shapingDraft.kind === kind ? "view-look-btn active" : "view-look-btn"}
+                        aria-pressed={shapingDraft.kind === kind}
+                        onClick={() => setShapingDraft((prev) => ({ ...prev, kind }))}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {shapingDraft.kind === "repeat" ? (
+                  <div className="shaping-form-row shaping-numbers">
+                    <label>
+                      <span>From row</span>
+                      <input
+                        className="shaping-input"
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        value={shapingDraft.startRow}
+                        onChange={(event) => setShapingDraft((prev) => ({ ...prev, startRow: event.target.value }))}
+                      />
+                    </label>
+                    <label>
+                      <span>Every</span>
+                      <input
+                        className="shaping-input"
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        value={shapingDraft.every}
+                        onChange={(event) => setShapingDraft((prev) => ({ ...prev, every: event.target.value }))}
+                      />
+                    </label>
+                    <label>
+                      <span>Times</span>
+                      <input
+                        className="shaping-input"
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        max={500}
+                        value={shapingDraft.times}
+                        onChange={(event) => setShapingDraft((prev) => ({ ...prev, times: event.target.value }))}
+                      />
+                    </label>
+                  </div>
+                ) : (
+                  <input
+                    className="shaping-input"
+                    inputMode="numeric"
+                    value={shapingDraft.rows}
+                    onChange={(event) => setShapingDraft((prev) => ({ ...prev, rows: event.target.value }))}
+                    placeholder="Rows, e.g. 30, 32, 34"
+                    aria-label="Rows"
+                  />
+                )}
+                <button type="submit" className="index-add-btn" disabled={!shapingDraftRule}>
+                  + Add rule
+                </button>
+              </form>
+            </>
+          )}
+        </Panel>
+
+        <Panel
+          open={isLayersOpen}
+          onClose={() => {
+            setIsLayersOpen(false);
+            setLayerColorPickerId(null);
+          }}
+          anchorRef={moreButtonRef}
+          width={360}
+          title="Layers"
+          className="layers-panel"
+        >
+          <ul className="layer-list">
+            {size.index !== null ? (
+              <li className="layer-row layer-row-auto">
+                <div className="layer-main">
+                  <span className="layer-name">Size {size.index + 1} (automatic)</span>
+                  <span className="layer-count" title={`${sizeHighlights.length} highlights`}>
+                    {sizeHighlights.length}
+                  </span>
+                </div>
+                <div className="layer-actions">
+                  <button
+                    type="button"
+                    className={size.visible ? "counter-link-btn" : "counter-link-btn off"}
+                    onClick={() => setSize((prev) => ({ ...prev, visible: !prev.visible }))}
+                    aria-pressed={!size.visible}
+                    aria-label={size.visible ? "Hide size highlights" : "Show size highlights"}
+                    title={size.visible ? "Hide" : "Show"}
+                  >
+                    {size.visible ? "👁" : "–"}
+                  </button>
+                  <button type="button" className="counter-link-btn" onClick={toggleSizePanel} title="Change size">
+                    ⇲
+                  </button>
+                </div>
+              </li>
+            ) : null}
+            {[...layers].reverse().map((layer) => {
+              const index = layers.indexOf(layer);
+              const markCount = highlights.filter((item) => annotationLayerId(item, layers) === layer.id).length;
+              return (
+                <li key={layer.id} className={layer.id === activeLayer.id ? "layer-row active" : "layer-row"}>
+                  <div className="layer-main">
+                    <input
+                      type="radio"
+                      name="active-layer"
+                      checked={layer.id === activeLayer.id}
+                      onChange={() => setActiveLayerId(layer.id)}
+                      aria-label={`Draw on ${layer.name}`}
+                    />
+                    <input
+                      className="layer-name"
+                      value={layer.name}
+                      onChange={(event) => updateLayer(layer.id, { name: event.target.value })}
+                      onFocus={() => setActiveLayerId(layer.id)}
+                      aria-label="Layer name"
+                    />
+                    <span className="layer-count" title={`${markCount} marks`}>
+                      {markCount}
+                    </span>
+                  </div>
+                  <div className="layer-actions">
+                    <button
+                      type="button"
+                      className={layer.visible ? "counter-link-btn" : "counter-link-btn off"}
+                      onClick={() => updateLayer(layer.id, { visible: !layer.visible })}
+                      aria-pressed={!layer.visible}
+                      aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                      title={layer.visible ? "Hide" : "Show"}
+                    >
+                      {layer.visible ? "👁" : "–"}
+                    </button>
+                    <button
+                      type="button"
+                      className={layer.locked ? "counter-link-btn active" : "counter-link-btn"}
+                      onClick={() => updateLayer(layer.id, { locked: !layer.locked })}
+                      aria-pressed={layer.locked}
+                      aria-label={layer.locked ? `Unlock ${layer.name}` : `Lock ${layer.name}`}
+                      title={layer.locked ? "Unlock" : "Lock"}
+                    >
+                      {layer.locked ? "🔒" : "🔓"}
+                    </button>
+                    <button
+                      type="button"
+                      className="counter-link-btn"
+                      onClick={() => setLayerColorPickerId(layerColorPickerId === layer.id ? null : layer.id)}
+                      aria-expanded={layerColorPickerId === layer.id}
+                      aria-label={`${layer.name} color`}
+                      title="Layer color"
+                    >
+                      <span
+                        className={layer.color ? "layer-color-dot" : "layer-color-dot original"}
+                        style={layer.color ? { background: layer.color } : undefined}
+                        aria-hidden="true"
+                      />
+                    </button>
+                    <button
+                      type="button"
+                      className="counter-link-btn"
+                      onClick={() => setLayers((prev) => moveLayer(prev, layer.id, 1))}
+                      disabled={index === layers.length - 1}
+                      aria-label={`Move ${layer.name} up`}
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="counter-link-btn"
+                      onClick={() => setLayers((prev) => moveLayer(prev, layer.id, -1))}
+                      disabled={index === 0}
+                      aria-label={`Move ${layer.name} down`}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      className="counter-link-btn"
+                      onClick={() => deleteLayer(layer)}
+                      disabled={layers.length <= 1}
+                      aria-label={`Delete ${layer.name}`}
+                      title="Delete layer and its marks"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {layerColorPickerId === layer.id ? (
+                    <div className="tool-swatches layer-swatches" role="group" aria-label={`${layer.name} color`}>
+                      <button
+                        type="button"
+                        className={layer.color ? "layer-original-btn" : "layer-original-btn active"}
+                        onClick={() => updateLayer(layer.id, { color: undefined })}
+                      >
+                        Original
+                      </button>
+                      {STROKE_PALETTE.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          className={layer.color === color ? "tool-swatch active" : "tool-swatch"}
+                          style={{ background: color }}
+                          onClick={() => updateLayer(layer.id, { color })}
+                          aria-label={`Show ${layer.name} in ${color}`}
+                        />
+                      ))}
+                    </div>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+          <button type="button" className="counter-add-btn" onClick={addLayer}>
+            <span aria-hidden="true">＋</span> New layer
+          </button>
+          <p className="counter-detail-note">
+            New marks go on the selected layer. Hidden and locked layers can&apos;t be selected or erased; a layer color
+            shows every mark on it in that color without changing the marks.
+          </p>
+        </Panel>
+
+        <Panel
+          open={isPagesOpen}
+          onClose={() => setIsPagesOpen(false)}
+          anchorRef={moreButtonRef}
+          width={400}
+          title="Pages"
+          className="pages-panel"
+        >
+          <PageThumbnails
+            pages={pages}
+            thumbnails={pageThumbnails}
+            badges={pageBadges}
+            hiddenPages={hiddenPages}
+            currentPageIndex={currentPageNumber - 1}
+            onJump={(pageIndex) => {
+              scrollToPage(pageIndex);
+              setIsPagesOpen(false);
+            }}
+            onToggleHidden={toggleHiddenPage}
+            onVisiblePagesChange={setThumbnailPageIndexes}
+          />
+          <p className="counter-detail-note">
+            Tap a page to go to it. Long-press (or right-click) a page you&apos;ll never need, like an ad or another
+            size&apos;s chart, to fold it out of the pattern; long-press it again to bring it back.
+          </p>
+        </Panel>
+
+        <Panel
+          open={isPageLayoutOpen}
+          onClose={() => setIsPageLayoutOpen(false)}
+          anchorRef={moreButtonRef}
+          width={320}
+          title={`Rotate & crop page ${currentPageNumber}`}
+          className="page-layout-panel"
+        >
+          <PageLayoutControls
+            transform={pageTransformFor(pageTransforms, currentPageNumber - 1)}
+            pageCount={pages.length}
+            isTrimming={isTrimmingPages}
+            onRotate={rotateCurrentPage}
+            onTrim={() => void trimCurrentPage()}
+            onPickCrop={startCropPick}
+            onUncrop={() => setCurrentPageCrop(undefined)}
+            onTrimAll={() => void trimAllPages()}
+            onReset={resetCurrentPageLayout}
+          />
+        </Panel>
+
+        <Panel
+          open={isSearchOpen}
+          onClose={() => setIsSearchOpen(false)}
+          anchorRef={moreButtonRef}
+          width={380}
+          title="Search pattern"
+          className="search-panel"
+        >
+          <div className="search-bar">
+            <input
+              type="search"
+              className="search-input"
+              value={searchQuery}
+              onChange={(event) => updateSearchQuery(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.preventDefault();
+                  goToSearchHit(activeSearchHitIndex + (event.shiftKey ? -1 : 1));
+                }
+              }}
+              placeholder="Row 37, bind off…"
+              aria-label="Search the pattern text"
+              autoFocus
+            />
+            <button
+              type="button"
+              className="counter-link-btn"
+              onClick={() => goToSearchHit(activeSearchHitIndex - 1)}
+              disabled={searchHits.length === 0}
+              aria-label="Previous match"
+              title="Previous (Shift+Enter)"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="counter-link-btn"
+              onClick={() => goToSearchHit(activeSearchHitIndex + 1)}
+              disabled={searchHits.length === 0}
+              aria-label="Next match"
+              title="Next (Enter)"
+            >
+              ↓
+            </button>
           </div>
+          {searchQuery.trim() ? (
+            <p className="search-status" role="status">
+              {searchHits.length > 0
+                ? `${Math.min(activeSearchHitIndex, searchHits.length - 1) + 1} of ${searchHits.length}${
+                    searchHits.length >= MAX_SEARCH_HITS ? "+" : ""
+                  }`
+                : isPageTextComplete
+                  ? "No matches. Scanned pages have no text to search."
+                  : "Reading the pattern text…"}
+            </p>
+          ) : null}
+          {searchHits.length > 0 ? (
+            <ul className="search-results">
+              {searchHits.map((hit, index) => (
+                <li key={hit.id}>
+                  <button
+                    type="button"
+                    className={hit === activeSearchHit ? "search-result active" : "search-result"}
+                    onClick={() => goToSearchHit(index)}
+                  >
+                    <span className="search-result-page">p.{hit.pageIndex + 1}</span>
+                    <span className="search-result-text">
+                      {hit.before}
+                      <mark>{hit.match}</mark>
+                      {hit.after}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </Panel>
+
+        <Panel
+          open={isGlossaryOpen}
+          onClose={() => setIsGlossaryOpen(false)}
+          anchorRef={moreButtonRef}
+          width={380}
+          title="Glossary"
+          className="glossary-panel"
+        >
+          <p className="counter-detail-note">
+            Long-press a word on the pattern to see what it means. Abbreviations the pattern defines itself take
+            priority over the standard ones.
+          </p>
+          <button type="button" className="index-item-btn glossary-pick" onClick={startGlossaryPick}>
+            Read the pattern&apos;s abbreviations section…
+          </button>
+          <form
+            className="glossary-add"
+            onSubmit={(event) => {
+              event.preventDefault();
+              addGlossaryEntry();
+            }}
+          >
+            <input
+              type="text"
+              className="glossary-add-term"
+              value={glossaryTermDraft}
+              onChange={(event) => setGlossaryTermDraft(event.target.value)}
+              placeholder="k1b"
+              aria-label="Abbreviation"
+            />
+            <input
+              type="text"
+              value={glossaryDefinitionDraft}
+              onChange={(event) => setGlossaryDefinitionDraft(event.target.value)}
+              placeholder="knit into the stitch below"
+              aria-label="Definition"
+            />
+            <button
+              type="submit"
+              className="index-item-btn"
+              disabled={!glossaryTermDraft.trim() || !glossaryDefinitionDraft.trim()}
+            >
+              Add
+            </button>
+          </form>
+          <input
+            type="search"
+            className="glossary-search"
+            value={glossaryQuery}
+            onChange={(event) => setGlossaryQuery(event.target.value)}
+            placeholder="Search abbreviations"
+            aria-label="Search abbreviations"
+          />
+          <dl className="glossary-list">
+            {searchGlossary(combinedGlossary(glossary), glossaryQuery).map(({ entry, builtIn }) => (
+              <div key={`${builtIn ? "std" : "own"}:${entry.term}`} className="glossary-row">
+                <dt>{entry.term}</dt>
+                <dd>
+                  {entry.definition}
+                  {builtIn ? null : (
+                    <button
+                      type="button"
+                      className="glossary-remove"
+                      onClick={() => removeGlossaryEntry(entry.term)}
+                      aria-label={`Remove ${entry.term}`}
+                      title="Remove from this pattern's glossary"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </Panel>
+
+        <Panel
+          open={isSizeOpen}
+          onClose={() => setIsSizeOpen(false)}
+          anchorRef={moreButtonRef}
+          width={340}
+          title="Your size"
+          className="size-panel"
+        >
+          <p className="counter-detail-note">
+            Pick the size you&apos;re making and its number in every &quot;88 (96, 104, 112)&quot; is highlighted on
+            the pattern.
+          </p>
+          {sizeSample.length === 0 ? (
+            <p className="counter-detail-note">
+              {isPageTextComplete
+                ? "No size series found. Scanned patterns have no text to read."
+                : "Reading the pattern text…"}
+            </p>
+          ) : (
+            <div className="size-options" role="group" aria-label="Size">
+              {sizeSample.map((value, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  className={size.index === index ? "size-option active" : "size-option"}
+                  onClick={() => setSize((prev) => ({ ...prev, index: prev.index === index ? null : index }))}
+                  aria-pressed={size.index === index}
+                >
+                  <span className="size-option-label">Size {index + 1}</span>
+                  <span className="size-option-value">{value.text}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <label className="counter-detail-field counter-detail-toggle">
+            <input
+              type="checkbox"
+              checked={size.visible}
+              onChange={(event) => setSize((prev) => ({ ...prev, visible: event.target.checked }))}
+            />
+            Highlight my size on the pages
+          </label>
+        </Panel>
+
+        <Panel
+          open={isKeysOpen}
+          onClose={() => {
+            setIsKeysOpen(false);
+            setCapturingKeyAction(null);
+          }}
+          anchorRef={moreButtonRef}
+          width={360}
+          title="Keys & pedals"
+          className="keys-panel"
+        >
+          <label className="counter-detail-field keys-active">
+            <span>Active counter</span>
+            <select
+              value={counters.some((counter) => counter.id === focusCounterId) ? focusCounterId ?? "" : counters[0]?.id ?? ""}
+              onChange={(event) => setFocusCounterId(event.target.value || null)}
+              disabled={counters.length === 0}
+              aria-label="Active counter"
+            >
+              {counters.length === 0 ? <option value="">No counters yet</option> : null}
+              {counters.map((counter) => (
+                <option key={counter.id} value={counter.id}>
+                  {counter.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <ul className="keys-list">
+            {KEY_ACTIONS.map((action) => (
+              <li key={action.id} className="keys-row">
+                <span className="keys-action">{action.label}</span>
+                <span className="keys-chips">
+                  {keyBindings[action.id].map((key) => (
+                    <button
+                      key={key}
+                      type="button"
+                      className="keys-chip"
+                      onClick={() => removeKeyBinding(action.id, key)}
+                      aria-label={`Remove ${formatKey(key)} from ${action.label}`}
+                      title="Remove"
+                    >
+                      {formatKey(key)} <span aria-hidden="true">✕</span>
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    className={capturingKeyAction === action.id ? "keys-chip keys-add capturing" : "keys-chip keys-add"}
+                    onClick={() => setCapturingKeyAction(capturingKeyAction === action.id ? null : action.id)}
+                  >
+                    {capturingKeyAction === action.id ? "Press a key…" : "+ Key"}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="counter-detail-note">
+            Pair a page-turner pedal like a keyboard, tap &ldquo;+ Key&rdquo;, then press the pedal. Bindings follow your
+            account to other devices.
+          </p>
+          <button type="button" className="toolbar-btn keys-reset" onClick={() => setKeyBindings(DEFAULT_KEY_BINDINGS)}>
+            Reset to defaults
+          </button>
         </Panel>
 
         <Panel
@@ -2791,19 +6012,67 @@ export default function ProjectEditorPage({
           title="More"
         >
           <div className="menu-list">
-            <button type="button" className="menu-item" onClick={toggleIndexPopover}>
+            <button type="button" className="menu-item dock-duplicate" onClick={toggleIndexPopover}>
               <span className="menu-item-glyph" aria-hidden="true">
                 🔖
               </span>
               Bookmarks
             </button>
-            <button type="button" className="menu-item" onClick={toggleCalculatorPopover}>
+            <button type="button" className="menu-item dock-duplicate" onClick={toggleCalculatorPopover}>
               <span className="menu-item-glyph" aria-hidden="true">
                 🧮
               </span>
               Gauge calculator
             </button>
-            <button type="button" className="menu-item" onClick={onReferenceButtonClick}>
+            <button type="button" className="menu-item" onClick={toggleShapingPanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                ⟋
+              </span>
+              Shaping schedule
+            </button>
+            <button type="button" className="menu-item" onClick={toggleLayersPanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                ☰
+              </span>
+              Layers
+            </button>
+            <button type="button" className="menu-item" onClick={togglePagesPanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                ▦
+              </span>
+              Pages
+            </button>
+            <button type="button" className="menu-item" onClick={togglePageLayoutPanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                ⟳
+              </span>
+              Rotate &amp; crop
+            </button>
+            <button type="button" className="menu-item" onClick={toggleSearchPanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                ⌕
+              </span>
+              Search pattern
+            </button>
+            <button type="button" className="menu-item" onClick={toggleGlossaryPanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                §
+              </span>
+              Glossary
+            </button>
+            <button type="button" className="menu-item" onClick={toggleSizePanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                ⇲
+              </span>
+              Your size
+            </button>
+            <button type="button" className="menu-item" onClick={toggleKeysPanel}>
+              <span className="menu-item-glyph" aria-hidden="true">
+                ⌨
+              </span>
+              Keys &amp; pedals
+            </button>
+            <button type="button" className="menu-item dock-duplicate" onClick={onReferenceButtonClick}>
               <span className="menu-item-glyph" aria-hidden="true">
                 ❒
               </span>
@@ -2811,7 +6080,7 @@ export default function ProjectEditorPage({
             </button>
             <button
               type="button"
-              className="menu-item"
+              className="menu-item dock-duplicate"
               onClick={() => {
                 setIsMoreOpen(false);
                 void handleExportProject();
@@ -2823,6 +6092,20 @@ export default function ProjectEditorPage({
               </span>
               {isExporting ? "Exporting…" : "Export backup"}
             </button>
+            <button
+              type="button"
+              className="menu-item"
+              onClick={() => {
+                setIsMoreOpen(false);
+                void handleExportAnnotatedPdf();
+              }}
+              disabled={isExportingPdf || !pdfDoc}
+            >
+              <span className="menu-item-glyph" aria-hidden="true">
+                ⎙
+              </span>
+              {isExportingPdf ? "Exporting PDF…" : "Export annotated PDF"}
+            </button>
           </div>
         </Panel>
       {mode === "highlight" ? (
@@ -2859,8 +6142,8 @@ export default function ProjectEditorPage({
 
       <section
         className={
-          mode === "pan" && !isSelectingReference
-            ? "pdf-viewer pan-mode"
+          mode !== "highlight" && !isSelectingRegion
+            ? `pdf-viewer pan-mode${mode === "checklist" ? " checklist-mode" : ""}`
             : `pdf-viewer annotate-mode${mode === "highlight" ? " highlight-tools-open" : ""}`
         }
         ref={viewerRef}
@@ -2877,395 +6160,682 @@ export default function ProjectEditorPage({
           {pages.map((page, pageIndex) => (
             <article
               key={`page-${pageIndex}`}
-              className="pdf-page"
-              style={{ width: page.width * zoom, height: page.height * zoom }}
+              className={`pdf-page${hiddenPages.includes(pageIndex) ? " pdf-page-hidden" : ""}${
+                pageBoxes[pageIndex]?.contentTransform ? " pdf-page-transformed" : ""
+              }`}
+              style={{
+                width: pageBoxes[pageIndex]?.width,
+                height: hiddenPages.includes(pageIndex) ? undefined : pageBoxes[pageIndex]?.height
+              }}
               ref={(node) => {
                 pageRefs.current[pageIndex] = node;
               }}
             >
-              <canvas
-                ref={(node) => {
-                  canvasRefs.current[pageIndex] = node;
+              {hiddenPages.includes(pageIndex) ? (
+                <div className="pdf-page-stub">
+                  <span>Page {pageIndex + 1} hidden</span>
+                  <button type="button" className="index-item-btn" onClick={() => toggleHiddenPage(pageIndex)}>
+                    Show
+                  </button>
+                </div>
+              ) : null}
+              <div
+                className="pdf-page-content"
+                style={{
+                  width: page.width * zoom,
+                  height: page.height * zoom,
+                  transform: pageBoxes[pageIndex]?.contentTransform
                 }}
-                className="pdf-canvas"
-              />
-
-            <div
-              className="overlay-layer"
-              onPointerDown={(event) => pageOverlayPointerDown(event, pageIndex)}
-              onPointerMove={(event) => pageOverlayPointerMove(event, pageIndex)}
-              onPointerLeave={() => {
-                if (!erasingRef.current) {
-                  setEraserCursor(null);
-                }
-              }}
-            >
-              {mode === "highlight" && drawTool === "eraser" && eraserCursor && eraserCursor.pageIndex === pageIndex ? (
-                <div
-                  className="eraser-cursor"
-                  style={{
-                    left: eraserCursor.x * zoom,
-                    top: eraserCursor.y * zoom,
-                    width: ERASER_SCREEN_RADIUS * 2,
-                    height: ERASER_SCREEN_RADIUS * 2
+              >
+                <canvas
+                  ref={(node) => {
+                    canvasRefs.current[pageIndex] = node;
                   }}
+                  className="pdf-canvas"
                 />
-              ) : null}
-              <svg className="connection-layer" viewBox={`0 0 ${page.width * zoom} ${page.height * zoom}`} preserveAspectRatio="none">
-                <defs>
-                  <marker id="conn-arrow" markerWidth="8" markerHeight="8" refX="6.5" refY="4" orient="auto">
-                    <path d="M0,0 L8,4 L0,8 Z" className="connection-arrow" />
-                  </marker>
-                </defs>
-                {connections.map((connection) => {
-                  const fromCounter = counterById.get(connection.fromCounterId);
-                  const toCounter = counterById.get(connection.toCounterId);
-                  if (!fromCounter || !toCounter) {
-                    return null;
-                  }
-                  if (fromCounter.pageIndex !== pageIndex || toCounter.pageIndex !== pageIndex) {
-                    return null;
-                  }
-
-                  const from = getNodeCenter(fromCounter, "output");
-                  const to = getNodeCenter(toCounter, "input");
-                  if (!from || !to) {
-                    return null;
-                  }
-
-                  const sx = from.x * zoom;
-                  const sy = from.y * zoom;
-                  const ex = to.x * zoom;
-                  const ey = to.y * zoom;
-                  const cx = Math.max(24, Math.abs(ex - sx) * 0.38);
-                  const d = `M ${sx} ${sy} C ${sx + cx} ${sy}, ${ex - cx} ${ey}, ${ex} ${ey}`;
-
-                  return <path key={connection.id} d={d} className="connection-line" markerEnd="url(#conn-arrow)" />;
-                })}
-                {draftConnection && draftConnection.pageIndex === pageIndex ? (
-                  (() => {
-                    const sx = draftConnection.startX * zoom;
-                    const sy = draftConnection.startY * zoom;
-                    const ex = draftConnection.endX * zoom;
-                    const ey = draftConnection.endY * zoom;
-                    const cx = Math.max(24, Math.abs(ex - sx) * 0.38);
-                    const d = `M ${sx} ${sy} C ${sx + cx} ${sy}, ${ex - cx} ${ey}, ${ex} ${ey}`;
-                    return <path d={d} className="connection-line draft" markerEnd="url(#conn-arrow)" />;
-                  })()
-                ) : null}
-              </svg>
+                {detailTiles
+                  .filter((tile) => tile.pageIndex === pageIndex && tile.zoom === zoom)
+                  .map((tile) => (
+                    <canvas
+                      key={tile.key}
+                      ref={(node) => {
+                        if (node) {
+                          tileCanvasRefs.current.set(tile.key, node);
+                        } else {
+                          tileCanvasRefs.current.delete(tile.key);
+                        }
+                      }}
+                      className="pdf-tile"
+                      style={{ left: tile.x, top: tile.y, width: tile.width, height: tile.height }}
+                      aria-hidden="true"
+                    />
+                  ))}
 
-              {draftReferenceRect && draftReferenceRect.pageIndex === pageIndex ? (
                 <div
-                  className="reference-selection"
-                  style={{
-                    left: draftReferenceRect.x * zoom,
-                    top: draftReferenceRect.y * zoom,
-                    width: draftReferenceRect.width * zoom,
-                    height: draftReferenceRect.height * zoom
+                  className="overlay-layer"
+                  onPointerDown={(event) => pageOverlayPointerDown(event, pageIndex)}
+                  onPointerMove={(event) => pageOverlayPointerMove(event, pageIndex)}
+                  onClick={(event) => pageOverlayClick(event, pageIndex)}
+                  onPointerLeave={() => {
+                    if (!erasingRef.current) {
+                      setEraserCursor(null);
+                    }
                   }}
-                />
-              ) : null}
-
-              <svg className="annotation-layer" viewBox={`0 0 ${page.width * zoom} ${page.height * zoom}`} preserveAspectRatio="none">
-                {visibleHighlights
-                  .filter((item) => item.pageIndex === pageIndex && item.kind === "freeDraw")
-                  .map((item) => (
-                    <path
-                      key={item.id}
-                      d={toSvgPath(item.points, zoom)}
-                      className="free-draw-path"
-                      style={{ stroke: item.color ?? strokeColor }}
+                >
+                  {mode === "highlight" && drawTool === "eraser" && eraserCursor && eraserCursor.pageIndex === pageIndex ? (
+                    <div
+                      className="eraser-cursor"
+                      style={{
+                        left: eraserCursor.x * zoom,
+                        top: eraserCursor.y * zoom,
+                        width: ERASER_SCREEN_RADIUS * 2,
+                        height: ERASER_SCREEN_RADIUS * 2
+                      }}
                     />
-                  ))}
-              </svg>
+                  ) : null}
+                  <svg className="connection-layer" viewBox={`0 0 ${page.width * zoom} ${page.height * zoom}`} preserveAspectRatio="none">
+                    <defs>
+                      <marker id="conn-arrow" markerWidth="8" markerHeight="8" refX="6.5" refY="4" orient="auto">
+                        <path d="M0,0 L8,4 L0,8 Z" className="connection-arrow" />
+                      </marker>
+                    </defs>
+                    {connections.map((connection) => {
+                      const fromCounter = counterById.get(connection.fromCounterId);
+                      const toCounter = counterById.get(connection.toCounterId);
+                      if (!fromCounter || !toCounter) {
+                        return null;
+                      }
+                      if (fromCounter.pageIndex !== pageIndex || toCounter.pageIndex !== pageIndex) {
+                        return null;
+                      }
+
+                      const from = getNodeCenter(fromCounter, "output");
+                      const to = getNodeCenter(toCounter, "input");
+                      if (!from || !to) {
+                        return null;
+                      }
+
+                      const sx = from.x * zoom;
+                      const sy = from.y * zoom;
+                      const ex = to.x * zoom;
+                      const ey = to.y * zoom;
+                      const cx = Math.max(24, Math.abs(ex - sx) * 0.38);
+                      const d = `M ${sx} ${sy} C ${sx + cx} ${sy}, ${ex - cx} ${ey}, ${ex} ${ey}`;
+
+                      return <path key={connection.id} d={d} className="connection-line" markerEnd="url(#conn-arrow)" />;
+                    })}
+                    {draftConnection && draftConnection.pageIndex === pageIndex ? (
+                      (() => {
+                        const sx = draftConnection.startX * zoom;
+                        const sy = draftConnection.startY * zoom;
+                        const ex = draftConnection.endX * zoom;
+                        const ey = draftConnection.endY * zoom;
+                        const cx = Math.max(24, Math.abs(ex - sx) * 0.38);
+                        const d = `M ${sx} ${sy} C ${sx + cx} ${sy}, ${ex - cx} ${ey}, ${ex} ${ey}`;
+                        return <path d={d} className="connection-line draft" markerEnd="url(#conn-arrow)" />;
+                      })()
+                    ) : null}
+                  </svg>
 
-              {visibleHighlights
-                .filter((item) => item.pageIndex === pageIndex)
-                .map((item) => (
-                  item.kind === "line" ? (
+                  {draftReferenceRect && draftReferenceRect.pageIndex === pageIndex ? (
                     <div
-                      key={item.id}
-                      className="highlight-line"
+                      className="reference-selection"
                       style={{
-                        left: item.x * zoom,
-                        top: item.y * zoom,
-                        background: item.color ?? strokeColor,
-                        width: Math.hypot(((item.x2 ?? item.x) - item.x) * zoom, ((item.y2 ?? item.y) - item.y) * zoom),
-                        transform: `rotate(${Math.atan2((item.y2 ?? item.y) - item.y, (item.x2 ?? item.x) - item.x)}rad)`
+                        left: draftReferenceRect.x * zoom,
+                        top: draftReferenceRect.y * zoom,
+                        width: draftReferenceRect.width * zoom,
+                        height: draftReferenceRect.height * zoom
                       }}
                     />
-                  ) : item.kind === "text" ? (
+                  ) : null}
+
+                  {glossaryPopup && glossaryPopup.pageIndex === pageIndex ? (
                     <div
-                      key={item.id}
-                      className={`text-annotation${selectedTextAnnotationId === item.id ? " text-annotation-selected" : ""}`}
+                      className="glossary-popover"
+                      role="dialog"
+                      aria-label={`Definition of ${glossaryPopup.word}`}
                       style={{
-                        left: item.x * zoom,
-                        top: item.y * zoom,
-                        color: item.color ?? strokeColor,
-                        fontSize: `${(item.fontSize ?? 22) * zoom}px`
+                        left: clamp(glossaryPopup.x * zoom - 130, 8, Math.max(8, (pages[pageIndex]?.width ?? 0) * zoom - 268)),
+                        top: glossaryPopup.y * zoom + 6
                       }}
                       onPointerDown={(event) => event.stopPropagation()}
+                      onClick={(event) => event.stopPropagation()}
                     >
-                      {selectedTextAnnotationId === item.id && (
-                        <div className="text-annotation-toolbar" onPointerDown={(event) => event.stopPropagation()}>
+                      {(() => {
+                        const match = lookupGlossary(glossaryPopup.word, glossary);
+                        return (
+                          <>
+                            <div className="glossary-popover-head">
+                              <strong>{match?.entry.term ?? glossaryPopup.word}</strong>
+                              <button
+                                type="button"
+                                className="glossary-popover-close"
+                                onClick={() => setGlossaryPopup(null)}
+                                aria-label="Close definition"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                            {match ? (
+                              <>
+                                <p className="glossary-popover-definition">{match.entry.definition}</p>
+                                <span className="glossary-source">
+                                  {match.builtIn ? "Standard abbreviation" : "This pattern's glossary"}
+                                </span>
+                              </>
+                            ) : (
+                              <>
+                                <p className="glossary-popover-definition">Not in the glossary yet.</p>
+                                <button
+                                  type="button"
+                                  className="index-item-btn"
+                                  onClick={() => defineGlossaryTerm(glossaryPopup.word)}
+                                >
+                                  Add a definition
+                                </button>
+                              </>
+                            )}
+                          </>
+                        );
+                      })()}
+                    </div>
+                  ) : null}
+                  {mode === "pan" && !isSelectingRegion
+                    ? (pageLinks[pageIndex] ?? []).map((link) => (
+                        <button
+                          key={link.id}
+                          type="button"
+                          className="pdf-link"
+                          style={{ left: link.x * zoom, top: link.y * zoom, width: link.width * zoom, height: link.height * zoom }}
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            goToPdfDestination(link.destination, true);
+                          }}
+                          aria-label={`Go to page ${link.destination.pageIndex + 1}`}
+                        />
+                      ))
+                    : null}
+                  {searchHits
+                    .filter((hit) => hit.pageIndex === pageIndex)
+                    .map((hit) => (
+                      <div
+                        key={hit.id}
+                        className={hit === activeSearchHit ? "search-hit active" : "search-hit"}
+                        style={{ left: hit.x * zoom, top: hit.y * zoom, width: hit.width * zoom, height: hit.height * zoom }}
+                      />
+                    ))}
+                  {sizeHighlights
+                    .filter((item) => item.pageIndex === pageIndex)
+                    .map((item) => (
+                      <div
+                        key={item.key}
+                        className="size-highlight"
+                        style={{ left: item.x * zoom, top: item.y * zoom, width: item.width * zoom, height: item.height * zoom }}
+                      />
+                    ))}
+                  {checklist.done
+                    .filter((line) => line.pageIndex === pageIndex)
+                    .map((line) => (
+                      <div
+                        key={line.id}
+                        className="checklist-done"
+                        style={{ left: line.x * zoom, top: line.y * zoom, width: line.width * zoom, height: line.height * zoom }}
+                      />
+                    ))}
+                  {nextChecklistTarget && nextChecklistTarget.pageIndex === pageIndex ? (
+                    <div
+                      className="checklist-next"
+                      style={{
+                        left: nextChecklistTarget.x * zoom,
+                        top: nextChecklistTarget.y * zoom,
+                        width: nextChecklistTarget.width * zoom,
+                        height: nextChecklistTarget.height * zoom
+                      }}
+                    />
+                  ) : null}
+
+                  <svg className="annotation-layer" viewBox={`0 0 ${page.width * zoom} ${page.height * zoom}`} preserveAspectRatio="none">
+                    {visibleHighlights
+                      .filter((item) => item.pageIndex === pageIndex && SVG_MARK_KINDS.includes(item.kind))
+                      .map(renderSvgMark)}
+                  </svg>
+
+                  {visibleHighlights
+                    .filter((item) => item.pageIndex === pageIndex)
+                    .map((item) => (
+                      item.kind === "line" ? (
+                        <div
+                          key={item.id}
+                          className="highlight-line"
+                          style={{
+                            left: item.x * zoom,
+                            top: item.y * zoom,
+                            height: item.strokeWidth,
+                            marginTop: item.strokeWidth === undefined ? undefined : -item.strokeWidth / 2,
+                            opacity: item.opacity,
+                            // Broken lines are drawn as a border, which has dashes and dots built in.
+                            ...(item.dash && item.dash !== "solid"
+                              ? {
+                                  background: "none",
+                                  borderTop: `${item.strokeWidth ?? LEGACY_STROKE_STYLES.line.width}px ${item.dash} ${markColor(item)}`,
+                                  borderRadius: 0
+                                }
+                              : { background: markColor(item) }),
+                            width: Math.hypot(((item.x2 ?? item.x) - item.x) * zoom, ((item.y2 ?? item.y) - item.y) * zoom),
+                            transform: `rotate(${Math.atan2((item.y2 ?? item.y) - item.y, (item.x2 ?? item.x) - item.x)}rad)`
+                          }}
+                        />
+                      ) : item.kind === "text" ? (
+                        <div
+                          key={item.id}
+                          className={`text-annotation${selectedTextAnnotationId === item.id ? " text-annotation-selected" : ""}`}
+                          style={{
+                            left: item.x * zoom,
+                            top: item.y * zoom,
+                            color: markColor(item),
+                            fontSize: `${(item.fontSize ?? 22) * zoom}px`
+                          }}
+                          onPointerDown={(event) => {
+                            // The select tool picks text up like any other mark.
+                            if (!isSelectTool) {
+                              event.stopPropagation();
+                            }
+                          }}
+                        >
+                          {selectedTextAnnotationId === item.id && isAnnotationEditable(item, layers) && (
+                            <div className="text-annotation-toolbar" onPointerDown={(event) => event.stopPropagation()}>
+                              <button
+                                type="button"
+                                className="text-toolbar-btn"
+                                onClick={() => {
+                                  const current = item.fontSize ?? 22;
+                                  if (current > 8) updateTextAnnotationProperty(item.id, { fontSize: current - 2 });
+                                }}
+                                aria-label="Decrease font size"
+                              >
+                                A&#x2212;
+                              </button>
+                              <span className="text-toolbar-size">{item.fontSize ?? 22}</span>
+                              <button
+                                type="button"
+                                className="text-toolbar-btn"
+                                onClick={() => {
+                                  const current = item.fontSize ?? 22;
+                                  if (current < 120) updateTextAnnotationProperty(item.id, { fontSize: current + 2 });
+                                }}
+                                aria-label="Increase font size"
+                              >
+                                A+
+                              </button>
+                              <span className="text-toolbar-divider" />
+                              {STROKE_PALETTE.map((swatchColor) => (
+                                <button
+                                  key={swatchColor}
+                                  type="button"
+                                  className={`text-toolbar-swatch${(item.color ?? strokeColor) === swatchColor ? " active" : ""}`}
+                                  style={{ background: swatchColor }}
+                                  onClick={() => updateTextAnnotationProperty(item.id, { color: swatchColor })}
+                                  aria-label={`Set text color ${swatchColor}`}
+                                />
+                              ))}
+                              <span className="text-toolbar-divider" />
+                              <button
+                                type="button"
+                                className="text-toolbar-btn"
+                                onClick={undoWorkspace}
+                                disabled={!workspaceHistory.canUndo}
+                                aria-label="Undo"
+                              >
+                                ↩
+                              </button>
+                              <button
+                                type="button"
+                                className="text-toolbar-btn text-toolbar-delete"
+                                onClick={() => deleteTextAnnotation(item.id)}
+                                aria-label="Delete text box"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          )}
+                          {selectedTextAnnotationId === item.id && isAnnotationEditable(item, layers) && (
+                            <button
+                              type="button"
+                              className="text-annotation-drag-handle"
+                              onPointerDown={(event) => startDraggingText(event, item)}
+                              aria-label="Drag text annotation"
+                            />
+                          )}
+                          {editingTextAnnotationId === item.id && isAnnotationEditable(item, layers) ? (
+                            <textarea
+                              value={item.text ?? ""}
+                              className="text-annotation-input"
+                              autoFocus
+                              rows={1}
+                              onChange={(event) => updateTextAnnotation(item.id, event.target.value)}
+                              onBlur={() => setEditingTextAnnotationId(null)}
+                              onKeyDown={(event) => {
+                                if (event.key === "Escape") {
+                                  setEditingTextAnnotationId(null);
+                                }
+                              }}
+                            />
+                          ) : (
+                            <button
+                              type="button"
+                              className="text-annotation-label"
+                              onClick={() => {
+                                if (isSelectTool || !isAnnotationEditable(item, layers)) {
+                                  return;
+                                }
+                                if (selectedTextAnnotationId === item.id) {
+                                  setEditingTextAnnotationId(item.id);
+                                } else {
+                                  setSelectedTextAnnotationId(item.id);
+                                }
+                              }}
+                              onDoubleClick={() => {
+                                if (!isAnnotationEditable(item, layers)) {
+                                  return;
+                                }
+                                setSelectedAnnotationIds([]);
+                                setSelectedTextAnnotationId(item.id);
+                                setEditingTextAnnotationId(item.id);
+                              }}
+                            >
+                              {(item.text && item.text.length > 0) ? item.text : "Type..."}
+                            </button>
+                          )}
+                        </div>
+                      ) : SVG_MARK_KINDS.includes(item.kind) ? null : (
+                        <div
+                          key={item.id}
+                          className={item.kind === "highlight" ? "highlight-marker" : "highlight-box"}
+                          style={{
+                            left: item.x * zoom,
+                            top: item.y * zoom,
+                            width: item.width * zoom,
+                            height: item.height * zoom,
+                            borderColor: item.kind === "highlight" ? "transparent" : markColor(item),
+                            borderWidth: item.kind === "rectangle" ? item.strokeWidth : undefined,
+                            borderStyle: item.kind === "rectangle" ? item.dash : undefined,
+                            opacity: item.kind === "rectangle" ? item.opacity : undefined,
+                            // Highlights stay yellow unless recoloured; the colour is tinted so text shows through.
+                            background:
+                              item.kind === "highlight" && (layerColorFor(item) ?? item.color)
+                                ? `${layerColorFor(item) ?? item.color}55`
+                                : undefined
+                          }}
+                        />
+                      )
+                    ))}
+
+                  {isSelectTool && lasso && lasso.pageIndex === pageIndex ? (
+                    <svg className="annotation-layer" viewBox={`0 0 ${page.width * zoom} ${page.height * zoom}`} preserveAspectRatio="none">
+                      <polygon
+                        className="lasso-path"
+                        points={lasso.points.map((point) => `${point.x * zoom},${point.y * zoom}`).join(" ")}
+                      />
+                    </svg>
+                  ) : null}
+
+                  {isSelectTool
+                    ? (() => {
+                        const selected = highlights.filter(
+                          (item) =>
+                            item.pageIndex === pageIndex &&
+                            selectedAnnotationIds.includes(item.id) &&
+                            isAnnotationEditable(item, layers)
+                        );
+                        const bounds = unionBounds(selected.map(annotationBounds));
+                        if (!bounds) {
+                          return null;
+                        }
+                        const singleLine = selected.length === 1 && isSegmentKind(selected[0].kind) ? selected[0] : null;
+                        return (
+                          <>
+                            <div
+                              className="annotation-selection"
+                              style={{
+                                left: bounds.x * zoom - 4,
+                                top: bounds.y * zoom - 4,
+                                width: bounds.width * zoom + 8,
+                                height: bounds.height * zoom + 8
+                              }}
+                            >
+                              <div
+                                className="text-annotation-toolbar annotation-selection-toolbar"
+                                onPointerDown={(event) => event.stopPropagation()}
+                              >
+                                <span className="text-toolbar-size">{selected.length}</span>
+                                <span className="text-toolbar-divider" />
+                                {STROKE_PALETTE.map((swatchColor) => (
+                                  <button
+                                    key={swatchColor}
+                                    type="button"
+                                    className={`text-toolbar-swatch${
+                                      selected.every((item) => item.color === swatchColor) ? " active" : ""
+                                    }`}
+                                    style={{ background: swatchColor }}
+                                    onClick={() => recolorSelectedAnnotations(swatchColor)}
+                                    aria-label={`Recolor selection ${swatchColor}`}
+                                  />
+                                ))}
+                                <span className="text-toolbar-divider" />
+                                <button
+                                  type="button"
+                                  className="text-toolbar-btn text-toolbar-delete"
+                                  onClick={deleteSelectedAnnotations}
+                                  aria-label={selected.length > 1 ? `Delete ${selected.length} marks` : "Delete mark"}
+                                >
+                                  ✕
+                                </button>
+                              </div>
+                              {singleLine
+                                ? null
+                                : RESIZE_HANDLES.map((handle) => (
+                                    <button
+                                      key={handle}
+                                      type="button"
+                                      className={`annotation-handle ${handle}`}
+                                      onPointerDown={(event) => startResizingSelection(event, pageIndex, handle, bounds)}
+                                      aria-label={`Resize from ${handle} corner`}
+                                    />
+                                  ))}
+                            </div>
+                            {singleLine
+                              ? (["start", "end"] as const).map((end) => (
+                                  <button
+                                    key={end}
+                                    type="button"
+                                    className="annotation-handle line-end"
+                                    style={{
+                                      left: (end === "start" ? singleLine.x : singleLine.x2 ?? singleLine.x) * zoom,
+                                      top: (end === "start" ? singleLine.y : singleLine.y2 ?? singleLine.y) * zoom
+                                    }}
+                                    onPointerDown={(event) => startDraggingLineEnd(event, singleLine, end)}
+                                    aria-label={end === "start" ? "Move line start" : "Move line end"}
+                                  />
+                                ))
+                              : null}
+                          </>
+                        );
+                      })()
+                    : null}
+
+                  {counters
+                    .filter((counter) => counter.pageIndex === pageIndex && !counter.pinned)
+                    .map((counter) => (
+                      <div
+                        key={counter.id}
+                        className={`knit-counter ${counter.type}${focusCounterId === counter.id ? " focused" : ""}${
+                          linkSourceId === counter.id ? " link-source" : ""
+                        }${linkSourceId && linkSourceId !== counter.id ? " link-target" : ""}`}
+                        style={{ left: counter.x * zoom, top: counter.y * zoom }}
+                        onClickCapture={(event) => {
+                          if (linkSourceId && linkSourceId !== counter.id) {
+                            event.stopPropagation();
+                            event.preventDefault();
+                            completeLink(counter.id);
+                          }
+                        }}
+                      >
+                        <div className="counter-top">
                           <button
                             type="button"
-                            className="text-toolbar-btn"
-                            onClick={() => {
-                              const current = item.fontSize ?? 22;
-                              if (current > 8) updateTextAnnotationProperty(item.id, { fontSize: current - 2 });
-                            }}
-                            aria-label="Decrease font size"
+                            className="counter-drag-handle"
+                            onPointerDown={(event) => startDraggingCounter(event, counter)}
+                            aria-label={`Drag ${counter.label} counter`}
+                          />
+                          {editingCounterId === counter.id ? (
+                            <input
+                              value={editingCounterTitle}
+                              onChange={(event) => setEditingCounterTitle(event.target.value)}
+                              onBlur={() => finishCounterTitleEdit(counter.id)}
+                              onKeyDown={(event) => {
+                                if (event.key === "Enter") {
+                                  finishCounterTitleEdit(counter.id);
+                                }
+                                if (event.key === "Escape") {
+                                  setEditingCounterId(null);
+                                  setEditingCounterTitle("");
+                                }
+                              }}
+                              className="counter-title-input"
+                              autoFocus
+                            />
+                          ) : (
+                            <button
+                              type="button"
+                              className="counter-kind"
+                              onClick={() => startCounterTitleEdit(counter)}
+                              aria-label={`Edit ${counter.label} title`}
+                            >
+                              {counter.label}
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className="counter-close"
+                            onClick={() => deleteCounter(counter)}
+                            aria-label={`Remove ${counter.label} counter`}
+                          >
+                            ✕
+                          </button>
+                        </div>
+                        <input
+                          type="number"
+                          inputMode="numeric"
+                          pattern="[0-9]*"
+                          min={0}
+                          max={counter.repeatLength}
+                          value={counterValueDrafts[counter.id] ?? counter.value}
+                          onChange={(event) => updateCounterValueDraft(counter.id, event.target.value)}
+                          onFocus={() => setFocusCounterId(counter.id)}
+                          onBlur={() => commitCounterValueDraft(counter.id)}
+                          onKeyDown={(event) => {
+                            if (event.key === "Enter") {
+                              event.currentTarget.blur();
+                            } else if (event.key === "Escape") {
+                              clearCounterValueDraft(counter.id);
+                            }
+                          }}
+                          className="counter-value-input"
+                          aria-label={`${counter.label} value`}
+                        />
+                        {counter.repeatLength ? (
+                          <span className="counter-repeat-meta">
+                            of {counter.repeatLength} · repeat {(counter.repeatCount ?? 0) + 1}
+                          </span>
+                        ) : null}
+                        {counter.target !== undefined ? (
+                          <span
+                            className="counter-target"
+                            data-reached={counterPosition(counter) >= counter.target ? "true" : "false"}
+                            title={`${counterPosition(counter)} of ${counter.target}`}
                           >
-                            A&#x2212;
+                            <span className="counter-target-track" aria-hidden="true">
+                              <span style={{ width: `${Math.round((counterTargetProgress(counter) ?? 0) * 100)}%` }} />
+                            </span>
+                            {counterPosition(counter)}/{counter.target}
+                          </span>
+                        ) : null}
+                        <div className="counter-buttons">
+                          <button
+                            type="button"
+                            onClick={() => undoCounter(counter.id)}
+                          >
+                            Undo
                           </button>
-                          <span className="text-toolbar-size">{item.fontSize ?? 22}</span>
                           <button
                             type="button"
-                            className="text-toolbar-btn"
                             onClick={() => {
-                              const current = item.fontSize ?? 22;
-                              if (current < 120) updateTextAnnotationProperty(item.id, { fontSize: current + 2 });
+                              tapHaptic();
+                              applyCounterIncrement(counter.id, 1);
                             }}
-                            aria-label="Increase font size"
                           >
-                            A+
+                            +1
                           </button>
-                          <span className="text-toolbar-divider" />
-                          {STROKE_PALETTE.map((swatchColor) => (
-                            <button
-                              key={swatchColor}
-                              type="button"
-                              className={`text-toolbar-swatch${(item.color ?? strokeColor) === swatchColor ? " active" : ""}`}
-                              style={{ background: swatchColor }}
-                              onClick={() => updateTextAnnotationProperty(item.id, { color: swatchColor })}
-                              aria-label={`Set text color ${swatchColor}`}
-                            />
-                          ))}
-                          <span className="text-toolbar-divider" />
                           <button
                             type="button"
-                            className="text-toolbar-btn"
-                            onClick={() => undoTextFormat(item.id)}
-                            disabled={!(textFormatUndoRef.current[item.id]?.length)}
-                            aria-label="Undo formatting"
+                            onClick={() => {
+                              tapHaptic();
+                              applyCounterIncrement(counter.id, 5);
+                            }}
                           >
-                            ↩
+                            +5
                           </button>
                           <button
                             type="button"
-                            className="text-toolbar-btn text-toolbar-delete"
-                            onClick={() => deleteTextAnnotation(item.id)}
-                            aria-label="Delete text box"
+                            onClick={() => {
+                              tapHaptic();
+                              applyCounterIncrement(counter.id, 10);
+                            }}
                           >
-                            ✕
+                            +10
                           </button>
                         </div>
-                      )}
-                      {selectedTextAnnotationId === item.id && (
-                        <button
-                          type="button"
-                          className="text-annotation-drag-handle"
-                          onPointerDown={(event) => startDraggingText(event, item)}
-                          aria-label="Drag text annotation"
-                        />
-                      )}
-                      {editingTextAnnotationId === item.id ? (
-                        <textarea
-                          value={item.text ?? ""}
-                          className="text-annotation-input"
-                          autoFocus
-                          rows={1}
-                          onChange={(event) => updateTextAnnotation(item.id, event.target.value)}
-                          onBlur={() => setEditingTextAnnotationId(null)}
-                          onKeyDown={(event) => {
-                            if (event.key === "Escape") {
-                              setEditingTextAnnotationId(null);
-                            }
-                          }}
-                        />
-                      ) : (
                         <button
                           type="button"
-                          className="text-annotation-label"
-                          onClick={() => {
-                            if (selectedTextAnnotationId === item.id) {
-                              setEditingTextAnnotationId(item.id);
-                            } else {
-                              setSelectedTextAnnotationId(item.id);
-                            }
-                          }}
-                          onDoubleClick={() => {
-                            setSelectedTextAnnotationId(item.id);
-                            setEditingTextAnnotationId(item.id);
+                          data-node-role="input"
+                          data-counter-id={counter.id}
+                          data-hot={connectTargetCounterId === counter.id ? "true" : "false"}
+                          data-connected={(connectionStats.incoming.get(counter.id) ?? 0) > 0 ? "true" : "false"}
+                          className="counter-node input"
+                          ref={(node) => {
+                            nodeRefs.current[`${counter.id}:input`] = node;
                           }}
+                          aria-label={`${counter.label} incoming link port`}
+                          title="Incoming links land here"
                         >
-                          {(item.text && item.text.length > 0) ? item.text : "Type..."}
+                          <span className="node-dot" aria-hidden="true" />
+                          {(connectionStats.incoming.get(counter.id) ?? 0) > 0 ? (
+                            <span className="node-count">{connectionStats.incoming.get(counter.id)}</span>
+                          ) : null}
                         </button>
-                      )}
-                    </div>
-                  ) : item.kind === "freeDraw" ? null : (
-                    <div
-                      key={item.id}
-                      className={item.kind === "highlight" ? "highlight-marker" : "highlight-box"}
-                      style={{
-                        left: item.x * zoom,
-                        top: item.y * zoom,
-                        width: item.width * zoom,
-                        height: item.height * zoom,
-                        borderColor: item.kind === "highlight" ? "transparent" : item.color ?? strokeColor
-                      }}
-                    />
-                  )
-                ))}
-
-              {counters
-                .filter((counter) => counter.pageIndex === pageIndex)
-                .map((counter) => (
-                  <div
-                    key={counter.id}
-                    className={`knit-counter ${counter.type}${focusCounterId === counter.id ? " focused" : ""}${
-                      linkSourceId === counter.id ? " link-source" : ""
-                    }${linkSourceId && linkSourceId !== counter.id ? " link-target" : ""}`}
-                    style={{ left: counter.x * zoom, top: counter.y * zoom }}
-                    onClickCapture={(event) => {
-                      if (linkSourceId && linkSourceId !== counter.id) {
-                        event.stopPropagation();
-                        event.preventDefault();
-                        completeLink(counter.id);
-                      }
-                    }}
-                  >
-                    <div className="counter-top">
-                      <button
-                        type="button"
-                        className="counter-drag-handle"
-                        onPointerDown={(event) => startDraggingCounter(event, counter)}
-                        aria-label={`Drag ${counter.label} counter`}
-                      />
-                      {editingCounterId === counter.id ? (
-                        <input
-                          value={editingCounterTitle}
-                          onChange={(event) => setEditingCounterTitle(event.target.value)}
-                          onBlur={() => finishCounterTitleEdit(counter.id)}
-                          onKeyDown={(event) => {
-                            if (event.key === "Enter") {
-                              finishCounterTitleEdit(counter.id);
-                            }
-                            if (event.key === "Escape") {
-                              setEditingCounterId(null);
-                              setEditingCounterTitle("");
-                            }
-                          }}
-                          className="counter-title-input"
-                          autoFocus
-                        />
-                      ) : (
                         <button
                           type="button"
-                          className="counter-kind"
-                          onClick={() => startCounterTitleEdit(counter)}
-                          aria-label={`Edit ${counter.label} title`}
+                          data-node-role="output"
+                          data-counter-id={counter.id}
+                          data-hot={connectingFromCounterId === counter.id ? "true" : "false"}
+                          data-connected={(connectionStats.outgoing.get(counter.id) ?? 0) > 0 ? "true" : "false"}
+                          className="counter-node output"
+                          ref={(node) => {
+                            nodeRefs.current[`${counter.id}:output`] = node;
+                          }}
+                          onPointerDown={(event) => startConnectionDrag(event, counter)}
+                          aria-label={`${counter.label} outgoing link port — drag to another counter to link`}
+                          title="Drag to another counter to link"
                         >
-                          {counter.label}
+                          <span className="node-dot" aria-hidden="true" />
+                          {(connectionStats.outgoing.get(counter.id) ?? 0) > 0 ? (
+                            <span className="node-count">{connectionStats.outgoing.get(counter.id)}</span>
+                          ) : null}
                         </button>
-                      )}
-                      <button
-                        type="button"
-                        className="counter-close"
-                        onClick={() => deleteCounter(counter)}
-                        aria-label={`Remove ${counter.label} counter`}
-                      >
-                        ✕
-                      </button>
-                    </div>
-                    <input
-                      type="number"
-                      inputMode="numeric"
-                      pattern="[0-9]*"
-                      min={0}
-                      value={counter.value}
-                      onChange={(event) => setCounterValue(counter.id, Number(event.target.value) || 0)}
-                      onFocus={() => setFocusCounterId(counter.id)}
-                      className="counter-value-input"
-                      aria-label={`${counter.label} value`}
-                    />
-                    <div className="counter-buttons">
-                      <button
-                        type="button"
-                        onClick={() => undoCounter(counter.id)}
-                      >
-                        Undo
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => {
-                          tapHaptic();
-                          applyCounterIncrement(counter.id, 1);
-                        }}
-                      >
-                        +1
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => {
-                          tapHaptic();
-                          applyCounterIncrement(counter.id, 5);
-                        }}
-                      >
-                        +5
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => {
-                          tapHaptic();
-                          applyCounterIncrement(counter.id, 10);
-                        }}
-                      >
-                        +10
-                      </button>
-                    </div>
-                    <button
-                      type="button"
-                      data-node-role="input"
-                      data-counter-id={counter.id}
-                      data-hot={connectTargetCounterId === counter.id ? "true" : "false"}
-                      data-connected={(connectionStats.incoming.get(counter.id) ?? 0) > 0 ? "true" : "false"}
-                      className="counter-node input"
-                      ref={(node) => {
-                        nodeRefs.current[`${counter.id}:input`] = node;
-                      }}
-                      aria-label={`${counter.label} incoming link port`}
-                      title="Incoming links land here"
-                    >
-                      <span className="node-dot" aria-hidden="true" />
-                      {(connectionStats.incoming.get(counter.id) ?? 0) > 0 ? (
-                        <span className="node-count">{connectionStats.incoming.get(counter.id)}</span>
-                      ) : null}
-                    </button>
-                    <button
-                      type="button"
-                      data-node-role="output"
-                      data-counter-id={counter.id}
-                      data-hot={connectingFromCounterId === counter.id ? "true" : "false"}
-                      data-connected={(connectionStats.outgoing.get(counter.id) ?? 0) > 0 ? "true" : "false"}
-                      className="counter-node output"
-                      ref={(node) => {
-                        nodeRefs.current[`${counter.id}:output`] = node;
-                      }}
-                      onPointerDown={(event) => startConnectionDrag(event, counter)}
-                      aria-label={`${counter.label} outgoing link port — drag to another counter to link`}
-                      title="Drag to another counter to link"
-                    >
-                      <span className="node-dot" aria-hidden="true" />
-                      {(connectionStats.outgoing.get(counter.id) ?? 0) > 0 ? (
-                        <span className="node-count">{connectionStats.outgoing.get(counter.id)}</span>
-                      ) : null}
-                    </button>
-                  </div>
-                ))}
-            </div>
+                      </div>
+                    ))}
+                </div>
+              </div>
             </article>
           ))}
         </div>
@@ -3302,13 +6872,23 @@ export default function ProjectEditorPage({
           <button
             type="button"
             className="tool-strip-btn"
-            onClick={undoLatestAnnotation}
-            disabled={!highlights.length}
-            aria-label="Undo last mark"
-            title="Undo last mark"
+            onClick={undoWorkspace}
+            disabled={!workspaceHistory.canUndo}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
           >
             <span aria-hidden="true">↩</span>
           </button>
+          <button
+            type="button"
+            className="tool-strip-btn"
+            onClick={redoWorkspace}
+            disabled={!workspaceHistory.canRedo}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <span aria-hidden="true">↪</span>
+          </button>
         </div>
       ) : null}
 
@@ -3337,7 +6917,9 @@ export default function ProjectEditorPage({
             <button
               key={index}
               type="button"
-              className={currentPageNumber === index + 1 ? "page-jump-btn active" : "page-jump-btn"}
+              className={`page-jump-btn${currentPageNumber === index + 1 ? " active" : ""}${
+                hiddenPages.includes(index) ? " hidden-page" : ""
+              }`}
               onClick={() => {
                 scrollToPage(index);
                 setIsPageJumpOpen(false);
@@ -3347,8 +6929,83 @@ export default function ProjectEditorPage({
             </button>
           ))}
         </div>
+        <button type="button" className="page-jump-manage" onClick={togglePagesPanel}>
+          <span aria-hidden="true">▦</span> Page thumbnails
+        </button>
       </Panel>
 
+      {mode === "checklist" ? (
+        <div className="checklist-bar" role="group" aria-label="Checklist" style={{ top: toolbarHeight + 10 }}>
+          <span className="checklist-bar-count">
+            {checklist.done.length === 0
+              ? "Tap a pattern line to check it off"
+              : `${checklist.done.length} ${checklist.done.length === 1 ? "line" : "lines"} done`}
+          </span>
+          <label className="checklist-bar-sync">
+            <span>Follow</span>
+            <select
+              value={checklist.counterId ?? ""}
+              onChange={(event) => setChecklistCounter(event.target.value || null)}
+              aria-label="Row counter that checks off the next line"
+            >
+              <option value="">No counter</option>
+              {counters
+                .filter((counter) => counter.type === "row")
+                .map((counter) => (
+                  <option key={counter.id} value={counter.id}>
+                    {counter.label}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="index-item-btn"
+            onClick={clearChecklist}
+            disabled={checklist.done.length === 0}
+          >
+            Clear
+          </button>
+        </div>
+      ) : null}
+
+      <CounterHud
+        counters={counters.filter((counter) => counter.pinned)}
+        focusCounterId={focusCounterId}
+        linkSourceId={linkSourceId}
+        onStep={nudgeCounter}
+        onUndo={(counterId) => {
+          tapHaptic();
+          setFocusCounterId(counterId);
+          undoCounter(counterId);
+        }}
+        onCompleteLink={completeLink}
+        onOpenCounter={openCounterDetail}
+        onUnpin={(counterId) => setCounterPinned(counterId, false)}
+      />
+
+      {dueShaping.length > 0 && dueShapingKey !== dismissedShapingKey ? (
+        <div className="shaping-banner" role="status" style={{ top: toolbarHeight + 10 }}>
+          <div className="shaping-banner-body">
+            <strong>This row</strong>
+            <ul>
+              {dueShaping.map((event) => (
+                <li key={event.rule.id}>
+                  {event.rule.label}
+                  <small>
+                    {" "}
+                    · {event.counter.label} row {event.row} · {event.occurrence} of {event.total}
+                  </small>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <button type="button" className="editor-toast-action" onClick={() => setDismissedShapingKey(dueShapingKey)}>
+            Got it
+          </button>
+        </div>
+      ) : null}
+
       {toast ? (
         <div className="editor-toast" role="status">
           <span className="editor-toast-message">{toast.message}</span>
@@ -17,6 +17,7 @@ import {
 } from "../lib/convex-upload";
 import { resizePhotoForUpload } from "../lib/image";
 import { migrateLocalProjects } from "../lib/migrate-local";
+import { formatKnitDuration } from "../lib/pace";
 import { deleteCachedProject } from "../lib/local-db";
 import { normalizeWorkspace } from "../lib/workspace-utils";
 import type { ProjectBackup } from "../lib/project-types";
@@ -666,6 +667,7 @@ function HubInner({
                   {project.status === "finished"
                     ? `Finished ${formatProjectTime(project.finishedAt ?? project.updatedAt)}`
                     : `Last opened ${formatProjectTime(project.lastOpenedAt)}`}
+                  {project.knitTimeMs ? ` · ${formatKnitDuration(project.knitTimeMs)} knit` : ""}
                 </p>
               </div>
             </article>
@@ -883,6 +885,7 @@ function HubInner({
               {detailProject.finishedAt
                 ? `Finished ${formatProjectTime(detailProject.finishedAt)}`
                 : "Finished"}
+              {detailProject.knitTimeMs ? ` · ${formatKnitDuration(detailProject.knitTimeMs)} of knitting` : ""}
             </p>
 
             <div className="finished-gallery">
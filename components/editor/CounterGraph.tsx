@@ -0,0 +1,222 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { counterPosition, describeConnection } from "../../lib/counters";
+import type { CounterConnection, KnitCounter } from "../../lib/project-types";
+
+type CounterGraphProps = {
+  counters: KnitCounter[];
+  connections: CounterConnection[];
+  onLink: (fromCounterId: string, toCounterId: string) => boolean;
+  onRetarget: (connection: CounterConnection, toCounterId: string) => boolean;
+  onRemove: (connection: CounterConnection) => void;
+  onOpenCounter: (counter: KnitCounter) => void;
+};
+
+type Selection = { kind: "counter"; id: string } | { kind: "link"; id: string } | null;
+
+const NODE_WIDTH = 118;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 54;
+const ROW_GAP = 14;
+const PADDING = 10;
+
+/**
+ * Columns by longest chain of links feeding each counter, so links always run
+ * left to right. Bounded by the counter count so stray loops in old data
+ * can't spin forever.
+ */
+function layoutCounters(counters: KnitCounter[], connections: CounterConnection[]) {
+  const depth = new Map(counters.map((counter) => [counter.id, 0]));
+  for (let pass = 0; pass < counters.length; pass += 1) {
+    let changed = false;
+    for (const connection of connections) {
+      const from = depth.get(connection.fromCounterId);
+      const to = depth.get(connection.toCounterId);
+      if (from === undefined || to === undefined || to >= from + 1 || from + 1 >= counters.length) {
+        continue;
+      }
+      depth.set(connection.toCounterId, from + 1);
+      changed = true;
+    }
+    if (!changed) {
+      break;
+    }
+  }
+
+  const rowsUsed: number[] = [];
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const counter of counters) {
+    const column = depth.get(counter.id) ?? 0;
+    const row = rowsUsed[column] ?? 0;
+    rowsUsed[column] = row + 1;
+    positions.set(counter.id, {
+      x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP)
+    });
+  }
+
+  return {
+    positions,
+    width: PADDING * 2 + Math.max(1, rowsUsed.length) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: PADDING * 2 + Math.max(1, ...rowsUsed) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP
+  };
+}
+
+/**
+ * Every counter and link as a node diagram. Tap a counter, then another, to
+ * link them; tap a link to retarget or delete it.
+ */
+export default function CounterGraph({
+  counters,
+  connections,
+  onLink,
+  onRetarget,
+  onRemove,
+  onOpenCounter
+}: CounterGraphProps) {
+  const [selection, setSelection] = useState<Selection>(null);
+  const layout = useMemo(() => layoutCounters(counters, connections), [counters, connections]);
+  const selectedCounter =
+    selection?.kind === "counter" ? counters.find((counter) => counter.id === selection.id) ?? null : null;
+  const selectedLink =
+    selection?.kind === "link" ? connections.find((connection) => connection.id === selection.id) ?? null : null;
+
+  function labelFor(counterId: string): string {
+    return counters.find((counter) => counter.id === counterId)?.label ?? "Counter";
+  }
+
+  function handleCounterTap(counterId: string) {
+    if (selectedLink) {
+      if (counterId !== selectedLink.toCounterId) {
+        onRetarget(selectedLink, counterId);
+      }
+      setSelection(null);
+      return;
+    }
+    if (!selectedCounter) {
+      setSelection({ kind: "counter", id: counterId });
+      return;
+    }
+    if (selectedCounter.id !== counterId) {
+      onLink(selectedCounter.id, counterId);
+    }
+    setSelection(null);
+  }
+
+  if (counters.length === 0) {
+    return <p className="panel-empty-note">No counters yet. Add one from the Counters panel.</p>;
+  }
+
+  return (
+    <div className="counter-graph">
+      <div className="counter-graph-canvas">
+        <svg
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          role="group"
+          aria-label="Counter links"
+        >
+          <defs>
+            <marker id="graph-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+              <path d="M0,0 L8,4 L0,8 z" className="counter-graph-arrow" />
+            </marker>
+          </defs>
+          {connections.map((connection) => {
+            const from = layout.positions.get(connection.fromCounterId);
+            const to = layout.positions.get(connection.toCounterId);
+            if (!from || !to) {
+              return null;
+            }
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(24, Math.abs(x2 - x1) / 2);
+            const d = `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+            const isSelected = selectedLink?.id === connection.id;
+            return (
+              <g
+                key={connection.id}
+                className={`counter-graph-link${isSelected ? " selected" : ""}`}
+                onClick={() => setSelection(isSelected ? null : { kind: "link", id: connection.id })}
+              >
+                <path d={d} markerEnd="url(#graph-arrow)" />
+                <path className="counter-graph-hit" d={d} />
+                {connection.mode && connection.mode !== "each" ? (
+                  <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 5} textAnchor="middle">
+                    {describeConnection(connection)}
+                  </text>
+                ) : null}
+              </g>
+            );
+          })}
+          {counters.map((counter) => {
+            const position = layout.positions.get(counter.id);
+            if (!position) {
+              return null;
+            }
+            const isSelected = selectedCounter?.id === counter.id;
+            return (
+              <g
+                key={counter.id}
+                className={`counter-graph-node${isSelected ? " selected" : ""}`}
+                transform={`translate(${position.x} ${position.y})`}
+                onClick={() => handleCounterTap(counter.id)}
+              >
+                <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={10} />
+                <text x={10} y={18} className="counter-graph-label">
+                  {counter.label.length > 14 ? `${counter.label.slice(0, 13)}…` : counter.label}
+                </text>
+                <text x={10} y={35} className="counter-graph-value">
+                  {counter.repeatLength ? `${counter.value}/${counter.repeatLength}` : counterPosition(counter)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="counter-graph-status" role="status">
+        {selectedLink ? (
+          <>
+            <span>
+              {labelFor(selectedLink.fromCounterId)} → {labelFor(selectedLink.toCounterId)}. Tap a counter to move the
+              arrow&apos;s end there.
+            </span>
+            <div className="counter-graph-actions">
+              <button
+                type="button"
+                className="index-item-btn index-item-btn-danger"
+                onClick={() => {
+                  onRemove(selectedLink);
+                  setSelection(null);
+                }}
+              >
+                Delete link
+              </button>
+              <button type="button" className="index-item-btn" onClick={() => setSelection(null)}>
+                Cancel
+              </button>
+            </div>
+          </>
+        ) : selectedCounter ? (
+          <>
+            <span>Tap the counter {selectedCounter.label} should advance.</span>
+            <div className="counter-graph-actions">
+              <button type="button" className="index-item-btn" onClick={() => onOpenCounter(selectedCounter)}>
+                Settings
+              </button>
+              <button type="button" className="index-item-btn" onClick={() => setSelection(null)}>
+                Cancel
+              </button>
+            </div>
+          </>
+        ) : (
+          <span>Tap a counter, then the one it should advance. Tap an arrow to retarget or delete it.</span>
+        )}
+      </div>
+    </div>
+  );
+}
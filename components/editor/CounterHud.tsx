@@ -0,0 +1,115 @@
+"use client";
+
+import { counterPosition, counterTargetProgress } from "../../lib/counters";
+import type { KnitCounter } from "../../lib/project-types";
+
+type CounterHudProps = {
+  counters: KnitCounter[];
+  focusCounterId: string | null;
+  linkSourceId: string | null;
+  onStep: (counterId: string, delta: number) => void;
+  onUndo: (counterId: string) => void;
+  onCompleteLink: (counterId: string) => void;
+  onOpenCounter: (counter: KnitCounter) => void;
+  onUnpin: (counterId: string) => void;
+};
+
+/**
+ * Pinned counters docked to the viewport, so they stay in reach while the
+ * pattern scrolls. Tapping the value counts up, like the on-page counters.
+ */
+export default function CounterHud({
+  counters,
+  focusCounterId,
+  linkSourceId,
+  onStep,
+  onUndo,
+  onCompleteLink,
+  onOpenCounter,
+  onUnpin
+}: CounterHudProps) {
+  if (counters.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="counter-hud" role="group" aria-label="Pinned counters">
+      {counters.map((counter) => {
+        const progress = counterTargetProgress(counter);
+        const isLinkTarget = linkSourceId !== null && linkSourceId !== counter.id;
+        return (
+          <div
+            key={counter.id}
+            className={`counter-hud-item ${counter.type}${focusCounterId === counter.id ? " focused" : ""}${
+              linkSourceId === counter.id ? " link-source" : ""
+            }${isLinkTarget ? " link-target" : ""}`}
+            onClickCapture={(event) => {
+              if (isLinkTarget) {
+                event.stopPropagation();
+                event.preventDefault();
+                onCompleteLink(counter.id);
+              }
+            }}
+          >
+            <div className="counter-hud-head">
+              <button
+                type="button"
+                className="counter-hud-name"
+                onClick={() => onOpenCounter(counter)}
+                aria-label={`${counter.label} settings`}
+              >
+                {counter.label}
+              </button>
+              <button
+                type="button"
+                className="counter-hud-unpin"
+                onClick={() => onUnpin(counter.id)}
+                aria-label={`Unpin ${counter.label}`}
+                title="Put back on the page"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="counter-hud-controls">
+              <button
+                type="button"
+                className="counter-hud-step"
+                onClick={() => onStep(counter.id, -1)}
+                aria-label={`Decrease ${counter.label}`}
+              >
+                −
+              </button>
+              <button
+                type="button"
+                className="counter-hud-value"
+                onClick={() => onStep(counter.id, 1)}
+                aria-label={`Increase ${counter.label}, now ${counter.value}`}
+              >
+                {counter.value}
+                {counter.repeatLength ? <small>/{counter.repeatLength}</small> : null}
+              </button>
+              <button
+                type="button"
+                className="counter-hud-step"
+                onClick={() => onUndo(counter.id)}
+                aria-label={`Undo ${counter.label}`}
+                title="Undo"
+              >
+                ↶
+              </button>
+            </div>
+            {progress !== null ? (
+              <span
+                className="counter-hud-target"
+                title={`${counterPosition(counter)} of ${counter.target}`}
+                aria-hidden="true"
+              >
+                <span style={{ width: `${Math.round(progress * 100)}%` }} />
+              </span>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useRef, useState, type Ref, type RefObject } from "react";
 
-type ViewerMode = "pan" | "highlight";
+type ViewerMode = "pan" | "highlight" | "checklist";
 
 type DockButtonProps = {
   glyph: string;
@@ -94,6 +94,10 @@ export type EditorChromeProps = {
   onBack: () => void;
   theme: "light" | "dark";
   onToggleTheme: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
   mode: ViewerMode;
   onSetMode: (mode: ViewerMode) => void;
   isExporting: boolean;
@@ -133,6 +137,10 @@ export default function EditorChrome({
   onBack,
   theme,
   onToggleTheme,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
   mode,
   onSetMode,
   isExporting,
@@ -196,6 +204,26 @@ export default function EditorChrome({
           >
             {SAVE_STATUS_TEXT[saveStatus]}
           </span>
+          <button
+            type="button"
+            className="topbar-icon-btn"
+            onClick={onUndo}
+            disabled={!canUndo}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+          >
+            <span aria-hidden="true">↶</span>
+          </button>
+          <button
+            type="button"
+            className="topbar-icon-btn"
+            onClick={onRedo}
+            disabled={!canRedo}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <span aria-hidden="true">↷</span>
+          </button>
           <button
             type="button"
             className="topbar-icon-btn"
@@ -212,9 +240,9 @@ export default function EditorChrome({
         <div className="dock-mode" role="group" aria-label="Reading mode">
           <button
             type="button"
-            className={`dock-mode-btn${!isMarkup ? " active" : ""}`}
+            className={`dock-mode-btn${mode === "pan" ? " active" : ""}`}
             onClick={() => onSetMode("pan")}
-            aria-pressed={!isMarkup}
+            aria-pressed={mode === "pan"}
             aria-label="Pan mode"
           >
             <span className="dock-glyph" aria-hidden="true">
@@ -234,6 +262,18 @@ export default function EditorChrome({
             </span>
             <span className="dock-mode-label">Mark up</span>
           </button>
+          <button
+            type="button"
+            className={`dock-mode-btn${mode === "checklist" ? " active" : ""}`}
+            onClick={() => onSetMode("checklist")}
+            aria-pressed={mode === "checklist"}
+            aria-label="Checklist mode: tap a pattern line to mark it done"
+          >
+            <span className="dock-glyph" aria-hidden="true">
+              ☑
+            </span>
+            <span className="dock-mode-label">Checklist</span>
+          </button>
         </div>
 
         <div className="dock-items">
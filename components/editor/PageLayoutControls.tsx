@@ -0,0 +1,73 @@
+"use client";
+
+import type { PageTransform } from "../../lib/project-types";
+
+type PageLayoutControlsProps = {
+  // The current page's rotation and crop, or undefined when it's shown as-is.
+  transform: PageTransform | undefined;
+  pageCount: number;
+  isTrimming: boolean;
+  onRotate: (quarterTurns: number) => void;
+  onTrim: () => void;
+  onPickCrop: () => void;
+  onUncrop: () => void;
+  onTrimAll: () => void;
+  onReset: () => void;
+};
+
+/**
+ * Rotate and crop for the current page, plus trimming the margins of every
+ * page at once.
+ */
+export default function PageLayoutControls({
+  transform,
+  pageCount,
+  isTrimming,
+  onRotate,
+  onTrim,
+  onPickCrop,
+  onUncrop,
+  onTrimAll,
+  onReset
+}: PageLayoutControlsProps) {
+  return (
+    <>
+      <div className="page-layout-row" role="group" aria-label="Rotate">
+        <button type="button" className="index-item-btn" onClick={() => onRotate(-1)}>
+          <span aria-hidden="true">⟲</span> Rotate left
+        </button>
+        <button type="button" className="index-item-btn" onClick={() => onRotate(1)}>
+          <span aria-hidden="true">⟳</span> Rotate right
+        </button>
+      </div>
+      <div className="page-layout-row" role="group" aria-label="Crop">
+        <button type="button" className="index-item-btn" onClick={onTrim}>
+          Trim margins
+        </button>
+        <button type="button" className="index-item-btn" onClick={onPickCrop}>
+          Draw crop box
+        </button>
+        <button type="button" className="index-item-btn" onClick={onUncrop} disabled={!transform?.crop}>
+          Uncrop
+        </button>
+      </div>
+      <div className="page-layout-row">
+        <button
+          type="button"
+          className="index-item-btn"
+          onClick={onTrimAll}
+          disabled={isTrimming || pageCount === 0}
+        >
+          {isTrimming ? "Trimming…" : "Trim every page"}
+        </button>
+        <button type="button" className="index-item-btn" onClick={onReset} disabled={!transform}>
+          Reset page
+        </button>
+      </div>
+      <p className="counter-detail-note">
+        Turn landscape charts upright and trim the white margins of scans. Counters and marks stay where they are on
+        the page; anything in a cropped-off margin is hidden until you uncrop.
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { PageMetric } from "../../lib/project-types";
+
+export type PageBadges = {
+  counters: number;
+  annotations: number;
+  anchors: number;
+};
+
+type PageThumbnailsProps = {
+  pages: PageMetric[];
+  thumbnails: Record<number, string>;
+  badges: PageBadges[];
+  hiddenPages: number[];
+  currentPageIndex: number;
+  onJump: (pageIndex: number) => void;
+  onToggleHidden: (pageIndex: number) => void;
+  // The pages scrolled into (or near) view, so only their thumbnails are drawn.
+  onVisiblePagesChange: (pageIndexes: number[]) => void;
+};
+
+const LONG_PRESS_MS = 500;
+
+/**
+ * Every page as a thumbnail with badges for what's on it. Tap jumps to the
+ * page; long-press (or right-click) folds it out of the reading flow, or
+ * back in.
+ */
+export default function PageThumbnails({
+  pages,
+  thumbnails,
+  badges,
+  hiddenPages,
+  currentPageIndex,
+  onJump,
+  onToggleHidden,
+  onVisiblePagesChange
+}: PageThumbnailsProps) {
+  const gridRef = useRef<HTMLDivElement | null>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const pressRef = useRef<{ timer: number; pageIndex: number; x: number; y: number } | null>(null);
+  const longPressedRef = useRef(false);
+  const onVisibleRef = useRef(onVisiblePagesChange);
+  onVisibleRef.current = onVisiblePagesChange;
+  // Read when the grid opens; following along as the reader scrolls would yank the grid around.
+  const currentPageIndexRef = useRef(currentPageIndex);
+  currentPageIndexRef.current = currentPageIndex;
+
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) {
+      return;
+    }
+    const visible = new Set<number>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const pageIndex = itemRefs.current.indexOf(entry.target as HTMLButtonElement);
+          if (pageIndex === -1) {
+            continue;
+          }
+          if (entry.isIntersecting) {
+            visible.add(pageIndex);
+          } else {
+            visible.delete(pageIndex);
+          }
+        }
+        onVisibleRef.current(Array.from(visible).sort((left, right) => left - right));
+      },
+      { root: grid, rootMargin: "200px 0px" }
+    );
+    for (const item of itemRefs.current.slice(0, pages.length)) {
+      if (item) {
+        observer.observe(item);
+      }
+    }
+    itemRefs.current[currentPageIndexRef.current]?.scrollIntoView({ block: "center" });
+    return () => {
+      observer.disconnect();
+      onVisibleRef.current([]);
+    };
+  }, [pages.length]);
+
+  useEffect(() => {
+    return () => {
+      if (pressRef.current) {
+        window.clearTimeout(pressRef.current.timer);
+      }
+    };
+  }, []);
+
+  function cancelPress() {
+    if (pressRef.current) {
+      window.clearTimeout(pressRef.current.timer);
+      pressRef.current = null;
+    }
+  }
+
+  return (
+    <div className="page-thumbs" ref={gridRef}>
+      {pages.map((page, pageIndex) => {
+        const hidden = hiddenPages.includes(pageIndex);
+        const badge = badges[pageIndex];
+        return (
+          <button
+            key={pageIndex}
+            ref={(node) => {
+              itemRefs.current[pageIndex] = node;
+            }}
+            type="button"
+            className={`page-thumb${pageIndex === currentPageIndex ? " active" : ""}${hidden ? " hidden-page" : ""}`}
+            onPointerDown={(event) => {
+              longPressedRef.current = false;
+              if (event.pointerType === "mouse") {
+                return;
+              }
+              cancelPress();
+              pressRef.current = {
+                pageIndex,
+                x: event.clientX,
+                y: event.clientY,
+                timer: window.setTimeout(() => {
+                  pressRef.current = null;
+                  longPressedRef.current = true;
+                  onToggleHidden(pageIndex);
+                }, LONG_PRESS_MS)
+              };
+            }}
+            onPointerMove={(event) => {
+              const press = pressRef.current;
+              if (press && Math.hypot(event.clientX - press.x, event.clientY - press.y) > 8) {
+                cancelPress();
+              }
+            }}
+            onPointerUp={cancelPress}
+            onPointerCancel={cancelPress}
+            onContextMenu={(event) => {
+              event.preventDefault();
+              // Touch long-presses are handled by the timer; this is right-click.
+              if (!longPressedRef.current && !pressRef.current) {
+                onToggleHidden(pageIndex);
+              }
+            }}
+            onClick={() => {
+              if (longPressedRef.current) {
+                longPressedRef.current = false;
+                return;
+              }
+              onJump(pageIndex);
+            }}
+            aria-label={`Page ${pageIndex + 1}${hidden ? " (hidden)" : ""}`}
+            title={hidden ? "Long-press to show in the pattern again" : "Long-press to hide from the pattern"}
+          >
+            <span className="page-thumb-image" style={{ aspectRatio: `${page.width} / ${page.height}` }}>
+              {thumbnails[pageIndex] ? (
+                <span className="page-thumb-picture" style={{ backgroundImage: `url(${thumbnails[pageIndex]})` }} />
+              ) : null}
+              {hidden ? <span className="page-thumb-hidden">Hidden</span> : null}
+            </span>
+            <span className="page-thumb-meta">
+              <span className="page-thumb-number">{pageIndex + 1}</span>
+              {badge?.counters ? (
+                <span className="page-thumb-badge counters" title={`${badge.counters} counters`}>
+                  #{badge.counters}
+                </span>
+              ) : null}
+              {badge?.annotations ? (
+                <span className="page-thumb-badge annotations" title={`${badge.annotations} marks`}>
+                  ✎{badge.annotations}
+                </span>
+              ) : null}
+              {badge?.anchors ? (
+                <span className="page-thumb-badge anchors" title={`${badge.anchors} bookmarks`}>
+                  ⚑{badge.anchors}
+                </span>
+              ) : null}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { STAMP_CELL_UNITS, chartSymbolById, customStampCells } from "../../lib/chart-symbols";
+
+type StampGlyphProps = {
+  stamp?: string;
+  text?: string;
+  color: string;
+  x?: number;
+  y?: number;
+  width: number;
+  height: number;
+  opacity?: number;
+};
+
+/**
+ * One chart stamp: a cell with a white ground, so it covers the symbol it
+ * corrects, and the symbol (or a custom stamp's text) on top. Works both
+ * nested in the page's annotation layer and on its own in the palette.
+ */
+export default function StampGlyph({ stamp, text, color, x, y, width, height, opacity }: StampGlyphProps) {
+  const symbol = chartSymbolById(stamp);
+  const viewWidth = (symbol ? symbol.cells : customStampCells(text ?? "")) * STAMP_CELL_UNITS;
+  return (
+    <svg
+      className="stamp-glyph"
+      x={x}
+      y={y}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${viewWidth} ${STAMP_CELL_UNITS}`}
+      preserveAspectRatio="none"
+      style={{ color, opacity }}
+      aria-hidden="true"
+      focusable="false"
+    >
+      <rect
+        className={symbol?.shade ? "stamp-cell shaded" : "stamp-cell"}
+        x={0.75}
+        y={0.75}
+        width={viewWidth - 1.5}
+        height={STAMP_CELL_UNITS - 1.5}
+      />
+      {symbol ? (
+        <>
+          {symbol.strokes.map((d) => (
+            <path key={d} d={d} className="stamp-stroke" />
+          ))}
+          {symbol.fills?.map((d) => (
+            <path key={d} d={d} className="stamp-fill" />
+          ))}
+        </>
+      ) : (
+        <text className="stamp-text" x={viewWidth / 2} y={STAMP_CELL_UNITS / 2}>
+          {text}
+        </text>
+      )}
+    </svg>
+  );
+}
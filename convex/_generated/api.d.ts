@@ -9,7 +9,10 @@
  */
 
 import type * as auth from "../auth.js";
+import type * as counterEvents from "../counterEvents.js";
 import type * as http from "../http.js";
+import type * as knitSessions from "../knitSessions.js";
+import type * as preferences from "../preferences.js";
 import type * as projects from "../projects.js";
 import type * as workspace from "../workspace.js";
 
@@ -21,7 +24,10 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
+  counterEvents: typeof counterEvents;
   http: typeof http;
+  knitSessions: typeof knitSessions;
+  preferences: typeof preferences;
   projects: typeof projects;
   workspace: typeof workspace;
 }>;
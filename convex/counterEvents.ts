@@ -0,0 +1,73 @@
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutation, query } from "./_generated/server";
+import { loadOwnedProject, requireUserId } from "./projects";
+import { counterEventValidator } from "./workspace";
+
+// Enough to undo a long session and show when rows were knit; older events
+// stay stored but aren't sent to the editor.
+const MAX_LISTED_EVENTS = 1000;
+
+export const list = query({
+  args: { projectId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+    const project = await loadOwnedProject(ctx, userId, args.projectId);
+    if (!project) {
+      return [];
+    }
+
+    const events = await ctx.db
+      .query("counterEvents")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .order("desc")
+      .take(MAX_LISTED_EVENTS);
+    return events.reverse().map(({ _id, _creationTime, projectId, userId: _userId, ...event }) => event);
+  }
+});
+
+export const record = mutation({
+  args: { projectId: v.string(), events: v.array(counterEventValidator) },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const project = await loadOwnedProject(ctx, userId, args.projectId);
+    if (!project) {
+      return;
+    }
+
+    for (const event of args.events) {
+      // Retried sends (flaky connection) must not duplicate history.
+      const existing = await ctx.db
+        .query("counterEvents")
+        .withIndex("by_project_and_event", (q) => q.eq("projectId", project._id).eq("id", event.id))
+        .unique();
+      if (!existing) {
+        await ctx.db.insert("counterEvents", { projectId: project._id, userId, ...event });
+      }
+    }
+  }
+});
+
+export const markUndone = mutation({
+  args: { projectId: v.string(), eventIds: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const project = await loadOwnedProject(ctx, userId, args.projectId);
+    if (!project) {
+      return;
+    }
+
+    for (const eventId of args.eventIds) {
+      const existing = await ctx.db
+        .query("counterEvents")
+        .withIndex("by_project_and_event", (q) => q.eq("projectId", project._id).eq("id", eventId))
+        .unique();
+      if (existing) {
+        await ctx.db.patch(existing._id, { undone: true });
+      }
+    }
+  }
+});
@@ -0,0 +1,69 @@
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutation, query } from "./_generated/server";
+import { loadOwnedProject, requireUserId } from "./projects";
+import { knitSessionValidator } from "./workspace";
+
+const MAX_LISTED_SESSIONS = 200;
+
+function sessionDurationMs(session: { startedAt: string; endedAt: string }): number {
+  return Math.max(0, Date.parse(session.endedAt) - Date.parse(session.startedAt));
+}
+
+export const list = query({
+  args: { projectId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return [];
+    }
+    const project = await loadOwnedProject(ctx, userId, args.projectId);
+    if (!project) {
+      return [];
+    }
+
+    const sessions = await ctx.db
+      .query("knitSessions")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .order("desc")
+      .take(MAX_LISTED_SESSIONS);
+    return sessions.reverse().map((session) => ({
+      id: session.id,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt
+    }));
+  }
+});
+
+/**
+ * Saves a session as it grows. The editor resends the same id while knitting
+ * continues, so the project's running total only gains the new time.
+ */
+export const upsert = mutation({
+  args: { projectId: v.string(), session: knitSessionValidator },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const project = await loadOwnedProject(ctx, userId, args.projectId);
+    if (!project) {
+      return;
+    }
+
+    const existing = await ctx.db
+      .query("knitSessions")
+      .withIndex("by_project_and_session", (q) => q.eq("projectId", project._id).eq("id", args.session.id))
+      .unique();
+
+    let addedMs = sessionDurationMs(args.session);
+    if (existing) {
+      if (args.session.endedAt <= existing.endedAt) {
+        return;
+      }
+      addedMs -= sessionDurationMs(existing);
+      await ctx.db.patch(existing._id, { endedAt: args.session.endedAt });
+    } else {
+      await ctx.db.insert("knitSessions", { projectId: project._id, userId, ...args.session });
+    }
+
+    await ctx.db.patch(project._id, { knitTimeMs: (project.knitTimeMs ?? 0) + Math.max(0, addedMs) });
+  }
+});
@@ -0,0 +1,54 @@
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutation, query } from "./_generated/server";
+import { requireUserId } from "./projects";
+import { customStampValidator, keyBindingsValidator } from "./workspace";
+
+export const get = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) {
+      return null;
+    }
+    const preferences = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    return preferences ? { keyBindings: preferences.keyBindings, customStamps: preferences.customStamps } : null;
+  }
+});
+
+export const setKeyBindings = mutation({
+  args: { keyBindings: keyBindingsValidator },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const timestamp = new Date().toISOString();
+    const existing = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { keyBindings: args.keyBindings, updatedAt: timestamp });
+    } else {
+      await ctx.db.insert("userPreferences", { userId, keyBindings: args.keyBindings, updatedAt: timestamp });
+    }
+  }
+});
+
+export const setCustomStamps = mutation({
+  args: { customStamps: v.array(customStampValidator) },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const timestamp = new Date().toISOString();
+    const existing = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { customStamps: args.customStamps, updatedAt: timestamp });
+    } else {
+      await ctx.db.insert("userPreferences", { userId, customStamps: args.customStamps, updatedAt: timestamp });
+    }
+  }
+});
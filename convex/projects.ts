@@ -17,7 +17,8 @@ function toMetadata(project: Doc<"projects">) {
     thumbnailDataUrl: project.thumbnailDataUrl,
     status: project.status ?? "active",
     finishedAt: project.finishedAt,
-    finishedNotes: project.finishedNotes
+    finishedNotes: project.finishedNotes,
+    knitTimeMs: project.knitTimeMs
   };
 }
 
@@ -26,7 +27,7 @@ const MAX_FINISHED_PHOTOS = 6;
 // Generous ceiling for a ~360px JPEG data URL; rejects accidental huge payloads.
 const MAX_THUMBNAIL_LENGTH = 200_000;
 
-async function requireUserId(ctx: QueryCtx | MutationCtx): Promise<Id<"users">> {
+export async function requireUserId(ctx: QueryCtx | MutationCtx): Promise<Id<"users">> {
   const userId = await getAuthUserId(ctx);
   if (userId === null) {
     throw new Error("Not signed in.");
@@ -34,7 +35,7 @@ async function requireUserId(ctx: QueryCtx | MutationCtx): Promise<Id<"users">>
   return userId;
 }
 
-async function loadOwnedProject(
+export async function loadOwnedProject(
   ctx: QueryCtx | MutationCtx,
   userId: Id<"users">,
   projectIdInput: string
@@ -425,6 +426,22 @@ export const remove = mutation({
       await ctx.db.delete(workspaceRecord._id);
     }
 
+    const counterEvents = await ctx.db
+      .query("counterEvents")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .collect();
+    for (const event of counterEvents) {
+      await ctx.db.delete(event._id);
+    }
+
+    const knitSessions = await ctx.db
+      .query("knitSessions")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .collect();
+    for (const session of knitSessions) {
+      await ctx.db.delete(session._id);
+    }
+
     for (const photoId of project.finishedPhotoIds ?? []) {
       await ctx.storage.delete(photoId);
     }
@@ -1,7 +1,13 @@
 import { defineSchema, defineTable } from "convex/server";
 import { authTables } from "@convex-dev/auth/server";
 import { v } from "convex/values";
-import { workspaceValidator } from "./workspace";
+import {
+  counterEventValidator,
+  customStampValidator,
+  keyBindingsValidator,
+  knitSessionValidator,
+  workspaceValidator
+} from "./workspace";
 
 export default defineSchema({
   ...authTables,
@@ -23,7 +29,9 @@ export default defineSchema({
     status: v.optional(v.union(v.literal("active"), v.literal("finished"))),
     finishedAt: v.optional(v.string()),
     finishedNotes: v.optional(v.string()),
-    finishedPhotoIds: v.optional(v.array(v.id("_storage")))
+    finishedPhotoIds: v.optional(v.array(v.id("_storage"))),
+    // Sum of recorded knitting sessions, kept up to date as they're saved.
+    knitTimeMs: v.optional(v.number())
   })
     .index("by_user", ["userId"])
     .index("by_user_and_fingerprint", ["userId", "fingerprint"]),
@@ -33,5 +41,30 @@ export default defineSchema({
     userId: v.id("users"),
     workspace: workspaceValidator,
     updatedAt: v.string()
-  }).index("by_project", ["projectId"])
+  }).index("by_project", ["projectId"]),
+
+  // Counter history lives outside the workspace document so it can grow
+  // without being resent on every autosave.
+  counterEvents: defineTable({
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+    ...counterEventValidator.fields
+  })
+    .index("by_project", ["projectId"])
+    .index("by_project_and_event", ["projectId", "id"]),
+
+  userPreferences: defineTable({
+    userId: v.id("users"),
+    keyBindings: v.optional(keyBindingsValidator),
+    customStamps: v.optional(v.array(customStampValidator)),
+    updatedAt: v.string()
+  }).index("by_user", ["userId"]),
+
+  knitSessions: defineTable({
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+    ...knitSessionValidator.fields
+  })
+    .index("by_project", ["projectId"])
+    .index("by_project_and_session", ["projectId", "id"])
 });
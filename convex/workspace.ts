@@ -5,6 +5,8 @@ const pointValidator = v.object({
   y: v.number()
 });
 
+const strokeDashValidator = v.union(v.literal("solid"), v.literal("dashed"), v.literal("dotted"));
+
 const annotationValidator = v.object({
   id: v.string(),
   pageIndex: v.number(),
@@ -13,7 +15,12 @@ const annotationValidator = v.object({
     v.literal("line"),
     v.literal("highlight"),
     v.literal("freeDraw"),
-    v.literal("text")
+    v.literal("text"),
+    v.literal("arrow"),
+    v.literal("ellipse"),
+    v.literal("check"),
+    v.literal("strike"),
+    v.literal("stamp")
   ),
   x: v.number(),
   y: v.number(),
@@ -24,7 +31,26 @@ const annotationValidator = v.object({
   y2: v.optional(v.number()),
   points: v.optional(v.array(pointValidator)),
   text: v.optional(v.string()),
-  fontSize: v.optional(v.number())
+  fontSize: v.optional(v.number()),
+  strokeWidth: v.optional(v.number()),
+  opacity: v.optional(v.number()),
+  dash: v.optional(strokeDashValidator),
+  stamp: v.optional(v.string()),
+  layerId: v.optional(v.string())
+});
+
+const strokeStyleValidator = v.object({
+  width: v.number(),
+  opacity: v.number(),
+  dash: strokeDashValidator
+});
+
+const layerValidator = v.object({
+  id: v.string(),
+  name: v.string(),
+  visible: v.boolean(),
+  locked: v.boolean(),
+  color: v.optional(v.string())
 });
 
 const counterValidator = v.object({
@@ -34,13 +60,22 @@ const counterValidator = v.object({
   y: v.number(),
   type: v.union(v.literal("row"), v.literal("stitch")),
   label: v.string(),
-  value: v.number()
+  value: v.number(),
+  repeatLength: v.optional(v.number()),
+  repeatCount: v.optional(v.number()),
+  target: v.optional(v.number()),
+  startValue: v.optional(v.number()),
+  targetAnchorId: v.optional(v.string()),
+  pinned: v.optional(v.boolean())
 });
 
 const connectionValidator = v.object({
   id: v.string(),
   fromCounterId: v.string(),
-  toCounterId: v.string()
+  toCounterId: v.string(),
+  mode: v.optional(v.union(v.literal("each"), v.literal("ratio"), v.literal("multiplier"))),
+  ratio: v.optional(v.number()),
+  multiplier: v.optional(v.number())
 });
 
 const referenceCaptureValidator = v.union(
@@ -72,6 +107,55 @@ const anchorValidator = v.object({
   yRatio: v.number()
 });
 
+const shapingRuleValidator = v.object({
+  id: v.string(),
+  counterId: v.string(),
+  label: v.string(),
+  kind: v.union(v.literal("repeat"), v.literal("rows")),
+  startRow: v.number(),
+  every: v.number(),
+  times: v.number(),
+  rows: v.array(v.number())
+});
+
+const checklistLineValidator = v.object({
+  id: v.string(),
+  pageIndex: v.number(),
+  x: v.number(),
+  y: v.number(),
+  width: v.number(),
+  height: v.number(),
+  text: v.string()
+});
+
+const checklistValidator = v.object({
+  done: v.array(checklistLineValidator),
+  counterId: v.union(v.string(), v.null())
+});
+
+const sizeSelectionValidator = v.object({
+  index: v.union(v.number(), v.null()),
+  visible: v.boolean()
+});
+
+const glossaryEntryValidator = v.object({
+  term: v.string(),
+  definition: v.string()
+});
+
+const pageTransformValidator = v.object({
+  pageIndex: v.number(),
+  rotation: v.union(v.literal(0), v.literal(90), v.literal(180), v.literal(270)),
+  crop: v.optional(
+    v.object({
+      x: v.number(),
+      y: v.number(),
+      width: v.number(),
+      height: v.number()
+    })
+  )
+});
+
 export const workspaceValidator = v.object({
   zoom: v.number(),
   annotations: v.array(annotationValidator),
@@ -79,8 +163,59 @@ export const workspaceValidator = v.object({
   connections: v.array(connectionValidator),
   referenceCapture: referenceCaptureValidator,
   strokeColor: v.string(),
+  toolStyles: v.optional(
+    v.object({
+      rectangle: strokeStyleValidator,
+      line: strokeStyleValidator,
+      freeDraw: strokeStyleValidator,
+      // Optional so styles saved before these tools existed still validate.
+      arrow: v.optional(strokeStyleValidator),
+      ellipse: v.optional(strokeStyleValidator),
+      strike: v.optional(strokeStyleValidator)
+    })
+  ),
   calculator: calculatorValidator,
-  anchors: v.array(anchorValidator)
+  anchors: v.array(anchorValidator),
+  // Optional so workspaces saved before shaping schedules still validate.
+  shapingRules: v.optional(v.array(shapingRuleValidator)),
+  // Optional for the same reason; the client adds a default layer when empty.
+  layers: v.optional(v.array(layerValidator)),
+  checklist: v.optional(checklistValidator),
+  size: v.optional(sizeSelectionValidator),
+  glossary: v.optional(v.array(glossaryEntryValidator)),
+  hiddenPages: v.optional(v.array(v.number())),
+  pageTransforms: v.optional(v.array(pageTransformValidator))
+});
+
+// One counter movement. Events from a single tap share a `batchId`; the
+// tapped counter is recorded as `sourceCounterId` on the ones it propagated to.
+export const counterEventValidator = v.object({
+  id: v.string(),
+  counterId: v.string(),
+  batchId: v.string(),
+  at: v.string(),
+  delta: v.number(),
+  value: v.number(),
+  previousValue: v.number(),
+  repeatCount: v.optional(v.number()),
+  sourceCounterId: v.optional(v.string()),
+  undone: v.optional(v.boolean())
+});
+
+// A stretch of knitting: from the first counter change until activity stops.
+export const knitSessionValidator = v.object({
+  id: v.string(),
+  startedAt: v.string(),
+  endedAt: v.string()
+});
+
+// Action id → keys, as in lib/key-bindings.ts. A record rather than a fixed
+// object so newly added actions don't need a schema change.
+export const keyBindingsValidator = v.record(v.string(), v.array(v.string()));
+
+export const customStampValidator = v.object({
+  id: v.string(),
+  text: v.string()
 });
 
 export function createDefaultWorkspace() {
@@ -100,6 +235,13 @@ export function createDefaultWorkspace() {
       rowInput: "",
       stitchInput: ""
     },
-    anchors: []
+    anchors: [],
+    shapingRules: [],
+    layers: [],
+    checklist: { done: [], counterId: null },
+    size: { index: null, visible: true },
+    glossary: [],
+    hiddenPages: [],
+    pageTransforms: []
   };
 }
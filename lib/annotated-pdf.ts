@@ -0,0 +1,383 @@
+import type { PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { STAMP_CELL_UNITS, chartSymbolById, customStampCells } from "./chart-symbols";
+import { counterPosition } from "./counters";
+import { annotationLayerId, visibleAnnotationsByLayer } from "./layers";
+import {
+  createDefaultToolStyles,
+  type Annotation,
+  type AnnotationLayer,
+  type KnitCounter,
+  type ScrollAnchor,
+  type StrokeTool
+} from "./project-types";
+import { arrowGeometry, checkmarkPoints, checkmarkStrokeWidth } from "./shapes";
+import { strokeDashPattern } from "./stroke-style";
+
+export type AnnotatedPdfInput = {
+  pdfDoc: PDFDocumentProxy;
+  annotations: Annotation[];
+  layers: AnnotationLayer[];
+  counters: KnitCounter[];
+  anchors: ScrollAnchor[];
+  strokeColor: string;
+  onProgress?: (pagesDone: number, pageCount: number) => void;
+};
+
+// 144 dpi: sharp when printed, and a page stays well inside canvas limits.
+const EXPORT_SCALE = 2;
+const EXPORT_MAX_PIXELS = 12_000_000;
+const JPEG_QUALITY = 0.86;
+const LEGACY_STROKE_STYLES = createDefaultToolStyles();
+const LABEL_FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+/**
+ * Renders every page with its visible annotations, counters and bookmarks
+ * drawn on, and packs the pages into a standalone PDF. Pages are flattened
+ * to images, so the result prints the same everywhere but its text can't be
+ * selected.
+ */
+export async function exportAnnotatedPdf(input: AnnotatedPdfInput): Promise<Blob> {
+  const { pdfDoc, onProgress } = input;
+  const annotations = visibleAnnotationsByLayer(input.annotations, input.layers);
+  const pages: ImagePage[] = [];
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not available.");
+  }
+
+  for (let pageIndex = 0; pageIndex < pdfDoc.numPages; pageIndex += 1) {
+    const page = await pdfDoc.getPage(pageIndex + 1);
+    const viewport = page.getViewport({ scale: 1 });
+    const scale = Math.min(EXPORT_SCALE, Math.sqrt(EXPORT_MAX_PIXELS / (viewport.width * viewport.height)));
+    canvas.width = Math.floor(viewport.width * scale);
+    canvas.height = Math.floor(viewport.height * scale);
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport, transform: [scale, 0, 0, scale, 0, 0] }).promise;
+
+    // Marks are stored in page units (scale 1), like the viewport.
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    for (const annotation of annotations) {
+      if (annotation.pageIndex === pageIndex) {
+        context.save();
+        drawAnnotation(context, annotation, ownColor(annotation, input.layers), input.strokeColor);
+        context.restore();
+      }
+    }
+    for (const anchor of input.anchors) {
+      if (anchor.pageIndex === pageIndex) {
+        drawAnchor(context, anchor, viewport.height);
+      }
+    }
+    for (const counter of input.counters) {
+      if (counter.pageIndex === pageIndex) {
+        drawCounter(context, counter);
+      }
+    }
+
+    pages.push({
+      width: viewport.width,
+      height: viewport.height,
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      jpeg: await canvasToJpeg(canvas)
+    });
+    page.cleanup();
+    onProgress?.(pageIndex + 1, pdfDoc.numPages);
+  }
+
+  canvas.width = 0;
+  canvas.height = 0;
+  return buildImagePdf(pages);
+}
+
+// A layer's colour overrides its marks' own; marks without either use the pen.
+function ownColor(annotation: Annotation, layers: AnnotationLayer[]): string | undefined {
+  const layerId = annotationLayerId(annotation, layers);
+  return layers.find((layer) => layer.id === layerId)?.color ?? annotation.color;
+}
+
+function applyStroke(context: CanvasRenderingContext2D, annotation: Annotation, color: string, tool: StrokeTool) {
+  const width = annotation.strokeWidth ?? LEGACY_STROKE_STYLES[tool].width;
+  context.strokeStyle = color;
+  context.lineWidth = width;
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  context.globalAlpha = annotation.opacity ?? 1;
+  context.setLineDash(strokeDashPattern(annotation.dash, width));
+}
+
+// Mirrors how the editor draws each kind (see the annotation layer there).
+function drawAnnotation(
+  context: CanvasRenderingContext2D,
+  annotation: Annotation,
+  tint: string | undefined,
+  strokeColor: string
+) {
+  const color = tint ?? strokeColor;
+  const { x, y, width, height } = annotation;
+  const x2 = annotation.x2 ?? x;
+  const y2 = annotation.y2 ?? y;
+  switch (annotation.kind) {
+    case "highlight":
+      // Yellow unless recoloured; the colour is tinted so text shows through.
+      context.fillStyle = tint ? `${tint}55` : "rgba(255, 232, 26, 0.33)";
+      context.beginPath();
+      context.roundRect(x, y, width, height, 5);
+      context.fill();
+      return;
+    case "rectangle":
+      applyStroke(context, annotation, color, "rectangle");
+      context.beginPath();
+      context.roundRect(x, y, width, height, 4);
+      context.stroke();
+      return;
+    case "line":
+    case "strike":
+      applyStroke(context, annotation, color, annotation.kind);
+      context.beginPath();
+      context.moveTo(x, y);
+      context.lineTo(x2, y2);
+      context.stroke();
+      return;
+    case "arrow": {
+      applyStroke(context, annotation, color, "arrow");
+      const { shaftEnd, head } = arrowGeometry(x, y, x2, y2, context.lineWidth);
+      context.beginPath();
+      context.moveTo(x, y);
+      context.lineTo(shaftEnd.x, shaftEnd.y);
+      context.stroke();
+      if (head.length > 0) {
+        context.fillStyle = color;
+        context.beginPath();
+        head.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+        context.closePath();
+        context.fill();
+      }
+      return;
+    }
+    case "ellipse":
+      applyStroke(context, annotation, color, "ellipse");
+      context.beginPath();
+      context.ellipse(x + width / 2, y + height / 2, Math.abs(width / 2), Math.abs(height / 2), 0, 0, Math.PI * 2);
+      context.stroke();
+      return;
+    case "freeDraw": {
+      const points = annotation.points ?? [];
+      if (points.length < 2) {
+        return;
+      }
+      applyStroke(context, annotation, color, "freeDraw");
+      context.beginPath();
+      points.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+      context.stroke();
+      return;
+    }
+    case "check": {
+      const box = { x, y, width, height };
+      context.strokeStyle = color;
+      context.lineWidth = checkmarkStrokeWidth(box);
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      context.beginPath();
+      checkmarkPoints(box).forEach((point, index) =>
+        index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)
+      );
+      context.stroke();
+      return;
+    }
+    case "text":
+      drawTextNote(context, annotation, color);
+      return;
+    case "stamp":
+      drawStamp(context, annotation, color);
+      return;
+  }
+}
+
+function drawTextNote(context: CanvasRenderingContext2D, annotation: Annotation, color: string) {
+  const text = annotation.text?.trim();
+  if (!text) {
+    return;
+  }
+  const fontSize = annotation.fontSize ?? 22;
+  context.fillStyle = color;
+  context.font = `${fontSize}px ${LABEL_FONT}`;
+  context.textBaseline = "top";
+  text.split("\n").forEach((line, index) => {
+    context.fillText(line, annotation.x + 5, annotation.y + 3 + index * fontSize * 1.2);
+  });
+}
+
+// The same cell as the editor's StampGlyph: a white (or grey) ground with
+// the symbol on top, in the stamp's own viewBox units.
+function drawStamp(context: CanvasRenderingContext2D, annotation: Annotation, color: string) {
+  const symbol = chartSymbolById(annotation.stamp);
+  const viewWidth = (symbol ? symbol.cells : customStampCells(annotation.text ?? "")) * STAMP_CELL_UNITS;
+  context.translate(annotation.x, annotation.y);
+  context.scale(annotation.width / viewWidth, annotation.height / STAMP_CELL_UNITS);
+  context.globalAlpha = annotation.opacity ?? 1;
+
+  context.fillStyle = symbol?.shade ? "#9e9e9e" : "#ffffff";
+  context.strokeStyle = color;
+  context.lineWidth = 1.5;
+  context.fillRect(0.75, 0.75, viewWidth - 1.5, STAMP_CELL_UNITS - 1.5);
+  context.strokeRect(0.75, 0.75, viewWidth - 1.5, STAMP_CELL_UNITS - 1.5);
+
+  if (!symbol) {
+    context.fillStyle = color;
+    context.font = `700 11px ${LABEL_FONT}`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillText(annotation.text ?? "", viewWidth / 2, STAMP_CELL_UNITS / 2);
+    return;
+  }
+  context.lineWidth = 2.2;
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  for (const d of symbol.strokes) {
+    context.stroke(new Path2D(d));
+  }
+  context.fillStyle = color;
+  for (const d of symbol.fills ?? []) {
+    context.fill(new Path2D(d));
+  }
+}
+
+function counterCaption(counter: KnitCounter): string {
+  const parts = [String(counter.value)];
+  if (counter.repeatLength) {
+    parts[0] = `${counter.value} of ${counter.repeatLength} · repeat ${(counter.repeatCount ?? 0) + 1}`;
+  }
+  if (counter.target !== undefined) {
+    parts.push(`${counterPosition(counter)}/${counter.target}`);
+  }
+  return parts.join(" · ");
+}
+
+// Counters print as a labelled value where they sit on the page.
+function drawCounter(context: CanvasRenderingContext2D, counter: KnitCounter) {
+  const label = counter.label;
+  const caption = counterCaption(counter);
+  context.save();
+  context.font = `600 9px ${LABEL_FONT}`;
+  const labelWidth = context.measureText(label).width;
+  context.font = `700 14px ${LABEL_FONT}`;
+  const captionWidth = context.measureText(caption).width;
+  const width = Math.max(labelWidth, captionWidth) + 14;
+
+  context.fillStyle = "rgba(255, 255, 255, 0.94)";
+  context.strokeStyle = counter.type === "row" ? "#5c9375" : "#8f8b58";
+  context.lineWidth = 1.2;
+  context.beginPath();
+  context.roundRect(counter.x, counter.y, width, 36, 7);
+  context.fill();
+  context.stroke();
+
+  context.fillStyle = "#4b5a52";
+  context.textBaseline = "top";
+  context.font = `600 9px ${LABEL_FONT}`;
+  context.fillText(label, counter.x + 7, counter.y + 5);
+  context.fillStyle = "#1f2a24";
+  context.font = `700 14px ${LABEL_FONT}`;
+  context.fillText(caption, counter.x + 7, counter.y + 16);
+  context.restore();
+}
+
+// Bookmarks print as a tab on the left edge at the height they jump to.
+function drawAnchor(context: CanvasRenderingContext2D, anchor: ScrollAnchor, pageHeight: number) {
+  const y = anchor.yRatio * pageHeight;
+  context.save();
+  context.font = `600 9px ${LABEL_FONT}`;
+  const width = context.measureText(anchor.name).width + 16;
+  context.fillStyle = "#135ca8";
+  context.beginPath();
+  context.moveTo(0, y - 7);
+  context.lineTo(width, y - 7);
+  context.lineTo(width - 5, y);
+  context.lineTo(width, y + 7);
+  context.lineTo(0, y + 7);
+  context.closePath();
+  context.fill();
+  context.fillStyle = "#ffffff";
+  context.textBaseline = "middle";
+  context.fillText(anchor.name, 4, y);
+  context.restore();
+}
+
+async function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+  if (!blob) {
+    throw new Error("Could not encode the page image.");
+  }
+  return blob;
+}
+
+type ImagePage = {
+  width: number;
+  height: number;
+  pixelWidth: number;
+  pixelHeight: number;
+  jpeg: Blob;
+};
+
+/**
+ * A minimal PDF with one full-page JPEG per page: a catalog, a page tree,
+ * and a page, content stream and image object for each page.
+ */
+function buildImagePdf(pages: ImagePage[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Blob) => {
+    const part = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    parts.push(part);
+    length += part instanceof Blob ? part.size : part.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Object 1 is the catalog, 2 the page tree, then three objects per page.
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  startObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const width = page.width.toFixed(2);
+    const height = page.height.toFixed(2);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    startObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`
+    );
+    startObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    startObject(pageId + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.size} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write("\nendstream\nendobj\n");
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id += 1) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return new Blob(parts, { type: "application/pdf" });
+}
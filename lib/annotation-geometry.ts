@@ -0,0 +1,236 @@
+import { distanceToSegment } from "./erase";
+import type { Annotation } from "./project-types";
+import { isSegmentKind } from "./shapes";
+
+export type Rect = { x: number; y: number; width: number; height: number };
+export type Point = { x: number; y: number };
+
+export type ResizeHandle = "nw" | "ne" | "sw" | "se";
+
+// Text boxes are sized by their content on screen, so their stored width and
+// height are zero; estimate from the font size and the longest line instead.
+function textBounds(annotation: Annotation): Rect {
+  const fontSize = annotation.fontSize ?? 22;
+  const lines = (annotation.text || "Type...").split("\n");
+  const longest = Math.max(...lines.map((line) => line.length));
+  return {
+    x: annotation.x,
+    y: annotation.y,
+    width: Math.max(annotation.width, 28, longest * fontSize * 0.55),
+    height: Math.max(annotation.height, lines.length * fontSize * 1.4)
+  };
+}
+
+function pointsBounds(points: Point[]): Rect {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** The box an annotation covers on its page, in page units. */
+export function annotationBounds(annotation: Annotation): Rect {
+  switch (annotation.kind) {
+    case "line":
+    case "arrow":
+    case "strike":
+      return pointsBounds([
+        { x: annotation.x, y: annotation.y },
+        { x: annotation.x2 ?? annotation.x, y: annotation.y2 ?? annotation.y }
+      ]);
+    case "freeDraw":
+      return annotation.points?.length
+        ? pointsBounds(annotation.points)
+        : { x: annotation.x, y: annotation.y, width: 0, height: 0 };
+    case "text":
+      return textBounds(annotation);
+    default:
+      return { x: annotation.x, y: annotation.y, width: annotation.width, height: annotation.height };
+  }
+}
+
+export function unionBounds(rects: Rect[]): Rect | null {
+  if (rects.length === 0) {
+    return null;
+  }
+  const left = Math.min(...rects.map((rect) => rect.x));
+  const top = Math.min(...rects.map((rect) => rect.y));
+  const right = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function insideRect(rect: Rect, x: number, y: number, padding = 0): boolean {
+  return (
+    x >= rect.x - padding &&
+    x <= rect.x + rect.width + padding &&
+    y >= rect.y - padding &&
+    y <= rect.y + rect.height + padding
+  );
+}
+
+function strokeDistance(annotation: Annotation, x: number, y: number): number {
+  if (isSegmentKind(annotation.kind)) {
+    return distanceToSegment(x, y, annotation.x, annotation.y, annotation.x2 ?? annotation.x, annotation.y2 ?? annotation.y);
+  }
+  const points = annotation.points ?? [];
+  if (points.length === 1) {
+    return Math.hypot(x - points[0].x, y - points[0].y);
+  }
+  let best = Number.POSITIVE_INFINITY;
+  for (let index = 1; index < points.length; index += 1) {
+    const a = points[index - 1];
+    const b = points[index];
+    best = Math.min(best, distanceToSegment(x, y, a.x, a.y, b.x, b.y));
+  }
+  return best;
+}
+
+function rectEdgeDistance(rect: Rect, x: number, y: number): number {
+  const left = rect.x;
+  const right = rect.x + rect.width;
+  const top = rect.y;
+  const bottom = rect.y + rect.height;
+  return Math.min(
+    distanceToSegment(x, y, left, top, right, top),
+    distanceToSegment(x, y, right, top, right, bottom),
+    distanceToSegment(x, y, right, bottom, left, bottom),
+    distanceToSegment(x, y, left, bottom, left, top)
+  );
+}
+
+// Close enough for hit-testing: the radial distance from the point to the
+// outline, which is exact on circles and slightly off on long, thin ellipses.
+function ellipseEdgeDistance(rect: Rect, x: number, y: number): number {
+  const rx = rect.width / 2;
+  const ry = rect.height / 2;
+  const dx = x - (rect.x + rx);
+  const dy = y - (rect.y + ry);
+  const distance = Math.hypot(dx, dy);
+  if (rx === 0 || ry === 0 || distance === 0) {
+    return Math.min(rx, ry);
+  }
+  const angle = Math.atan2(dy, dx);
+  const radius = (rx * ry) / Math.hypot(ry * Math.cos(angle), rx * Math.sin(angle));
+  return Math.abs(distance - radius);
+}
+
+/**
+ * The topmost annotation under a point on one page. Strokes and outlines are
+ * hit within `tolerance`; filled areas (highlights, text, ticks, the inside
+ * of a rectangle or ellipse) only count when no stroke is closer, so a line drawn over a
+ * highlighted row is still easy to grab.
+ */
+export function hitTestAnnotation(
+  annotations: Annotation[],
+  pageIndex: number,
+  x: number,
+  y: number,
+  tolerance: number
+): Annotation | null {
+  let areaHit: Annotation | null = null;
+  for (let index = annotations.length - 1; index >= 0; index -= 1) {
+    const annotation = annotations[index];
+    if (annotation.pageIndex !== pageIndex) {
+      continue;
+    }
+    if (isSegmentKind(annotation.kind) || annotation.kind === "freeDraw") {
+      if (strokeDistance(annotation, x, y) <= tolerance) {
+        return annotation;
+      }
+      continue;
+    }
+    const bounds = annotationBounds(annotation);
+    if (annotation.kind === "rectangle" && rectEdgeDistance(bounds, x, y) <= tolerance) {
+      return annotation;
+    }
+    if (annotation.kind === "ellipse" && ellipseEdgeDistance(bounds, x, y) <= tolerance) {
+      return annotation;
+    }
+    if (!areaHit && insideRect(bounds, x, y, annotation.kind === "text" ? tolerance : 0)) {
+      areaHit = annotation;
+    }
+  }
+  return areaHit;
+}
+
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let index = 0, previous = polygon.length - 1; index < polygon.length; previous = index, index += 1) {
+    const a = polygon[index];
+    const b = polygon[previous];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Annotations on a page whose centre falls inside a lasso outline. */
+export function annotationsInLasso(annotations: Annotation[], pageIndex: number, lasso: Point[]): Annotation[] {
+  if (lasso.length < 3) {
+    return [];
+  }
+  return annotations.filter((annotation) => {
+    if (annotation.pageIndex !== pageIndex) {
+      return false;
+    }
+    const bounds = annotationBounds(annotation);
+    return pointInPolygon({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, lasso);
+  });
+}
+
+export function translateAnnotation(annotation: Annotation, dx: number, dy: number): Annotation {
+  return {
+    ...annotation,
+    x: annotation.x + dx,
+    y: annotation.y + dy,
+    x2: annotation.x2 === undefined ? undefined : annotation.x2 + dx,
+    y2: annotation.y2 === undefined ? undefined : annotation.y2 + dy,
+    points: annotation.points?.map((point) => ({ x: point.x + dx, y: point.y + dy }))
+  };
+}
+
+/**
+ * Maps an annotation from one box to another, as when a selection's bounding
+ * box is dragged by a corner. Text scales its font with the box height.
+ */
+export function resizeAnnotation(annotation: Annotation, from: Rect, to: Rect): Annotation {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const mapX = (value: number) => to.x + (value - from.x) * scaleX;
+  const mapY = (value: number) => to.y + (value - from.y) * scaleY;
+  return {
+    ...annotation,
+    x: mapX(annotation.x),
+    y: mapY(annotation.y),
+    width: annotation.width * scaleX,
+    height: annotation.height * scaleY,
+    x2: annotation.x2 === undefined ? undefined : mapX(annotation.x2),
+    y2: annotation.y2 === undefined ? undefined : mapY(annotation.y2),
+    points: annotation.points?.map((point) => ({ x: mapX(point.x), y: mapY(point.y) })),
+    fontSize:
+      annotation.kind === "text"
+        ? Math.round(Math.min(120, Math.max(8, (annotation.fontSize ?? 22) * scaleY)))
+        : annotation.fontSize
+  };
+}
+
+/**
+ * The box after dragging one corner to (x, y), with the opposite corner held
+ * in place. Dragging past the opposite corner moves the box to that side
+ * instead of giving it a negative size.
+ */
+export function resizeBounds(bounds: Rect, handle: ResizeHandle, x: number, y: number, minSize: number): Rect {
+  const anchorX = handle === "nw" || handle === "sw" ? bounds.x + bounds.width : bounds.x;
+  const anchorY = handle === "nw" || handle === "ne" ? bounds.y + bounds.height : bounds.y;
+  const width = Math.max(minSize, Math.abs(x - anchorX));
+  const height = Math.max(minSize, Math.abs(y - anchorY));
+  return {
+    x: x < anchorX ? anchorX - width : anchorX,
+    y: y < anchorY ? anchorY - height : anchorY,
+    width,
+    height
+  };
+}
@@ -0,0 +1,155 @@
+import type { CustomStamp } from "./project-types";
+
+/**
+ * A knitting chart symbol drawn in a 24-unit-high box, `cells` chart cells
+ * wide (24 units each). `strokes` are outlined in the mark colour, `fills`
+ * filled with it; `shade` greys the whole cell, as for "no stitch".
+ */
+export type ChartSymbol = {
+  id: string;
+  label: string;
+  abbreviation: string;
+  keywords: string[];
+  cells: number;
+  strokes: string[];
+  fills?: string[];
+  shade?: boolean;
+};
+
+export const STAMP_CELL_UNITS = 24;
+
+// Symbols follow the Craft Yarn Council chart conventions, as seen on the
+// right side of the work.
+export const CHART_SYMBOLS: ChartSymbol[] = [
+  { id: "knit", label: "Knit", abbreviation: "k", keywords: ["knit", "rs"], cells: 1, strokes: ["M12 5 V19"] },
+  {
+    id: "purl",
+    label: "Purl",
+    abbreviation: "p",
+    keywords: ["purl", "ws", "dot"],
+    cells: 1,
+    strokes: [],
+    fills: ["M9.5 12a2.5 2.5 0 1 0 5 0a2.5 2.5 0 1 0 -5 0Z"]
+  },
+  {
+    id: "yo",
+    label: "Yarn over",
+    abbreviation: "yo",
+    keywords: ["yarn over", "yo", "increase", "eyelet"],
+    cells: 1,
+    strokes: ["M7 12a5 5 0 1 0 10 0a5 5 0 1 0 -10 0Z"]
+  },
+  {
+    id: "k2tog",
+    label: "Knit 2 together",
+    abbreviation: "k2tog",
+    keywords: ["k2tog", "decrease", "right leaning"],
+    cells: 1,
+    strokes: ["M6 19 L18 5"]
+  },
+  {
+    id: "ssk",
+    label: "Slip, slip, knit",
+    abbreviation: "ssk",
+    keywords: ["ssk", "decrease", "left leaning"],
+    cells: 1,
+    strokes: ["M6 5 L18 19"]
+  },
+  {
+    id: "cdd",
+    label: "Centred double decrease",
+    abbreviation: "cdd",
+    keywords: ["cdd", "s2kp", "double decrease"],
+    cells: 1,
+    strokes: ["M6 18 L12 6 L18 18", "M12 6 V19"]
+  },
+  {
+    id: "slip",
+    label: "Slip",
+    abbreviation: "sl",
+    keywords: ["slip", "sl", "wyib"],
+    cells: 1,
+    strokes: ["M7 6 L12 18 L17 6"]
+  },
+  {
+    id: "c1-1-rc",
+    label: "1/1 right cross",
+    abbreviation: "1/1 RC",
+    keywords: ["cable", "right twist", "rt", "c2b"],
+    cells: 2,
+    strokes: ["M6 20 L42 4", "M6 4 L18 9.3", "M30 14.7 L42 20"]
+  },
+  {
+    id: "c1-1-lc",
+    label: "1/1 left cross",
+    abbreviation: "1/1 LC",
+    keywords: ["cable", "left twist", "lt", "c2f"],
+    cells: 2,
+    strokes: ["M6 4 L42 20", "M6 20 L18 14.7", "M30 9.3 L42 4"]
+  },
+  {
+    id: "c2-2-rc",
+    label: "2/2 right cross",
+    abbreviation: "2/2 RC",
+    keywords: ["cable", "c4b"],
+    cells: 4,
+    strokes: ["M8 20 L88 4", "M8 4 L40 10.4", "M56 13.6 L88 20"]
+  },
+  {
+    id: "c2-2-lc",
+    label: "2/2 left cross",
+    abbreviation: "2/2 LC",
+    keywords: ["cable", "c4f"],
+    cells: 4,
+    strokes: ["M8 4 L88 20", "M8 20 L40 13.6", "M56 10.4 L88 4"]
+  },
+  {
+    id: "no-stitch",
+    label: "No stitch",
+    abbreviation: "—",
+    keywords: ["no stitch", "grey", "placeholder"],
+    cells: 1,
+    strokes: [],
+    shade: true
+  }
+];
+
+export const MAX_CUSTOM_STAMP_LENGTH = 12;
+
+export function chartSymbolById(id: string | undefined): ChartSymbol | null {
+  return CHART_SYMBOLS.find((symbol) => symbol.id === id) ?? null;
+}
+
+// Custom stamps are text; roughly three characters fit in a cell.
+export function customStampCells(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 3));
+}
+
+export function searchChartSymbols(query: string): ChartSymbol[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return CHART_SYMBOLS;
+  }
+  return CHART_SYMBOLS.filter(
+    (symbol) =>
+      symbol.label.toLowerCase().includes(needle) ||
+      symbol.abbreviation.toLowerCase().includes(needle) ||
+      symbol.keywords.some((keyword) => keyword.includes(needle))
+  );
+}
+
+export function searchCustomStamps(stamps: CustomStamp[], query: string): CustomStamp[] {
+  const needle = query.trim().toLowerCase();
+  return needle ? stamps.filter((stamp) => stamp.text.toLowerCase().includes(needle)) : stamps;
+}
+
+/** Drops malformed entries from a stored custom stamp set. */
+export function normalizeCustomStamps(value: unknown): CustomStamp[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (stamp): stamp is CustomStamp =>
+      typeof stamp?.id === "string" && typeof stamp?.text === "string" && stamp.text.trim().length > 0
+  );
+}
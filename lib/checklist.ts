@@ -0,0 +1,74 @@
+import type { PageTextLine } from "./pdf-text";
+import type { ChecklistLine, ChecklistState } from "./project-types";
+
+// Lines are identified by where they sit, so a mark survives re-reading the
+// text layer (and never depends on the text being unique on the page).
+export function checklistLineId(line: PageTextLine): string {
+  return `${line.pageIndex}:${Math.round(line.x)}:${Math.round(line.y)}`;
+}
+
+export function toChecklistLine(line: PageTextLine): ChecklistLine {
+  return {
+    id: checklistLineId(line),
+    pageIndex: line.pageIndex,
+    x: line.x,
+    y: line.y,
+    width: line.width,
+    height: line.height,
+    text: line.text
+  };
+}
+
+/** The text line under a tap, with a little slack above and below. */
+export function textLineAtPoint(lines: PageTextLine[], x: number, y: number): PageTextLine | null {
+  return (
+    lines.find(
+      (line) =>
+        x >= line.x - 4 && x <= line.x + line.width + 4 && y >= line.y - 2 && y <= line.y + line.height + 2
+    ) ?? null
+  );
+}
+
+/** Marks a line done, or undoes it when it already is. */
+export function toggleChecklistLine(state: ChecklistState, line: PageTextLine): ChecklistState {
+  const id = checklistLineId(line);
+  return state.done.some((item) => item.id === id)
+    ? { ...state, done: state.done.filter((item) => item.id !== id) }
+    : { ...state, done: [...state.done, toChecklistLine(line)] };
+}
+
+/**
+ * Follows a counter move: each step forward checks off the line after the
+ * most recently checked one (in reading order, across pages), and each step
+ * back unchecks the most recent line. Returns null when there's no starting
+ * line to advance from.
+ */
+export function advanceChecklist(
+  state: ChecklistState,
+  linesInOrder: PageTextLine[],
+  steps: number
+): ChecklistState | null {
+  let done = state.done;
+  if (steps < 0) {
+    return { ...state, done: done.slice(0, Math.max(0, done.length + steps)) };
+  }
+  for (let step = 0; step < steps; step += 1) {
+    const last = done[done.length - 1];
+    if (!last) {
+      return null;
+    }
+    const checked = new Set(done.map((item) => item.id));
+    const lastIndex = linesInOrder.findIndex((line) => checklistLineId(line) === last.id);
+    const next = linesInOrder.slice(lastIndex + 1).find((line) => !checked.has(checklistLineId(line)));
+    if (lastIndex === -1 || !next) {
+      break;
+    }
+    done = [...done, toChecklistLine(next)];
+  }
+  return { ...state, done };
+}
+
+/** The line a synced counter would check off next, for highlighting. */
+export function nextChecklistLine(state: ChecklistState, linesInOrder: PageTextLine[]): ChecklistLine | null {
+  return advanceChecklist(state, linesInOrder, 1)?.done.slice(state.done.length)[0] ?? null;
+}
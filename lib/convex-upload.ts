@@ -2,6 +2,7 @@ import type { ConvexReactClient } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 import type { ProjectWorkspace } from "./project-types";
+import { withCounterPosition } from "./counters";
 import { normalizeWorkspace } from "./workspace-utils";
 
 export type UploadResult = {
@@ -85,8 +86,8 @@ export async function uploadFinishedPhoto(
  * "Knit again": casts on a fresh active copy of a finished pattern. The PDF is
  * duplicated (so deleting either project never breaks the other), markups,
  * bookmarks, reference, and counter layout carry over, and counter values
- * reset to zero. The finished project — photos, notes — stays in the archive
- * untouched.
+ * (including repeat progress) reset to each counter's start value. The
+ * finished project — photos, notes — stays in the archive untouched.
  */
 export async function knitAgain(
   convex: ConvexReactClient,
@@ -117,7 +118,7 @@ export async function knitAgain(
   const workspace = normalizeWorkspace(source.workspace);
   await saveWorkspaceToCloud(convex, result.projectId, {
     ...workspace,
-    counters: workspace.counters.map((counter) => ({ ...counter, value: 0 }))
+    counters: workspace.counters.map((counter) => withCounterPosition(counter, counter.startValue ?? 0))
   });
 
   return result;
@@ -0,0 +1,314 @@
+import type { CounterConnection, CounterEvent, KnitCounter } from "./project-types";
+
+function completedRepeats(position: number, repeatLength: number): number {
+  return position <= 0 ? 0 : Math.floor((position - 1) / repeatLength);
+}
+
+/**
+ * How far a counter has travelled in total. Plain counters are just their
+ * value; repeat counters add the repeats already completed, so an 8-row
+ * repeat showing row 3 of its second pass sits at position 11.
+ */
+export function counterPosition(counter: KnitCounter): number {
+  if (!counter.repeatLength || counter.value <= 0) {
+    return Math.max(0, counter.value);
+  }
+  return (counter.repeatCount ?? 0) * counter.repeatLength + counter.value;
+}
+
+/**
+ * Moves a counter to an absolute position. Repeat counters wrap back to 1
+ * after `repeatLength`; 0 is reserved for "not started".
+ */
+export function withCounterPosition(counter: KnitCounter, position: number): KnitCounter {
+  const next = Math.max(0, Math.round(position));
+  if (!counter.repeatLength) {
+    return { ...counter, value: next };
+  }
+  if (next === 0) {
+    return { ...counter, value: 0, repeatCount: 0 };
+  }
+  return {
+    ...counter,
+    value: ((next - 1) % counter.repeatLength) + 1,
+    repeatCount: completedRepeats(next, counter.repeatLength)
+  };
+}
+
+/**
+ * How many ticks a counter has handed on to its linked counters by the time
+ * it reaches `position`. Plain counters pass every step along; repeat
+ * counters only tick when they roll over into the next repeat.
+ */
+export function emittedCount(counter: KnitCounter, position: number): number {
+  if (!counter.repeatLength) {
+    return Math.max(0, position);
+  }
+  return completedRepeats(position, counter.repeatLength);
+}
+
+/**
+ * Ticks one link delivers when its source's emitted count moves from `from`
+ * to `to`. Ratio links are worked out from the totals rather than a running
+ * remainder, so "every other row" stays in step after decrements and undo.
+ */
+export function connectionTicks(connection: CounterConnection, from: number, to: number): number {
+  switch (connection.mode) {
+    case "ratio": {
+      const every = Math.max(1, Math.floor(connection.ratio ?? 1));
+      return Math.floor(to / every) - Math.floor(from / every);
+    }
+    case "multiplier":
+      return (to - from) * Math.max(0, Math.floor(connection.multiplier ?? 1));
+    default:
+      return to - from;
+  }
+}
+
+export function describeConnection(connection: CounterConnection): string {
+  switch (connection.mode) {
+    case "ratio":
+      return `+1 every ${Math.max(1, Math.floor(connection.ratio ?? 1))}`;
+    case "multiplier":
+      return `×${Math.max(0, Math.floor(connection.multiplier ?? 1))}`;
+    default:
+      return "+1 each";
+  }
+}
+
+/**
+ * Applies `amount` (negative to step back) to the source counter and walks
+ * its links breadth-first. Each reachable counter is visited once (so loops
+ * and diamonds can't double-count) and receives whatever its upstream link
+ * delivered, so decrements unwind downstream the same way increments flow.
+ */
+export function propagateCounterChange(
+  counters: KnitCounter[],
+  connections: CounterConnection[],
+  sourceCounterId: string,
+  amount: number
+): KnitCounter[] {
+  const byId = new Map(counters.map((counter) => [counter.id, counter]));
+  const outgoing = new Map<string, CounterConnection[]>();
+  for (const connection of connections) {
+    const list = outgoing.get(connection.fromCounterId) ?? [];
+    list.push(connection);
+    outgoing.set(connection.fromCounterId, list);
+  }
+
+  const visited = new Set<string>([sourceCounterId]);
+  const incoming = new Map<string, number>([[sourceCounterId, amount]]);
+  const queue = [sourceCounterId];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    const counter = id ? byId.get(id) : undefined;
+    if (!id || !counter) {
+      continue;
+    }
+
+    const from = counterPosition(counter);
+    const to = Math.max(0, from + (incoming.get(id) ?? 0));
+    byId.set(id, withCounterPosition(counter, to));
+    const emittedFrom = emittedCount(counter, from);
+    const emittedTo = emittedCount(counter, to);
+
+    for (const connection of outgoing.get(id) ?? []) {
+      const nextId = connection.toCounterId;
+      if (visited.has(nextId)) {
+        continue;
+      }
+      visited.add(nextId);
+      incoming.set(nextId, connectionTicks(connection, emittedFrom, emittedTo));
+      queue.push(nextId);
+    }
+  }
+
+  return counters.map((counter) => byId.get(counter.id) ?? counter);
+}
+
+/**
+ * Progress from the counter's starting value toward its target as 0..1, or
+ * null when the counter has no target.
+ */
+export function counterTargetProgress(counter: KnitCounter): number | null {
+  if (counter.target === undefined) {
+    return null;
+  }
+  const start = counter.startValue ?? 0;
+  const span = counter.target - start;
+  if (span <= 0) {
+    return counterPosition(counter) >= counter.target ? 1 : 0;
+  }
+  return Math.min(1, Math.max(0, (counterPosition(counter) - start) / span));
+}
+
+/**
+ * Counters that crossed their target between two renders. `previous` maps
+ * counter ids to positions; counters it doesn't know about (just loaded or
+ * just added) never count as crossing.
+ */
+export function findReachedTargets(previous: Map<string, number>, counters: KnitCounter[]): KnitCounter[] {
+  return counters.filter((counter) => {
+    const before = previous.get(counter.id);
+    return (
+      counter.target !== undefined &&
+      before !== undefined &&
+      before < counter.target &&
+      counterPosition(counter) >= counter.target
+    );
+  });
+}
+
+/**
+ * The chain of links already leading from one counter to another, as counter
+ * ids including both ends, or null when there is none.
+ */
+export function findLinkPath(
+  connections: CounterConnection[],
+  fromCounterId: string,
+  toCounterId: string
+): string[] | null {
+  const parent = new Map<string, string>();
+  const visited = new Set<string>([fromCounterId]);
+  const queue = [fromCounterId];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    if (id === undefined) {
+      continue;
+    }
+    if (id === toCounterId) {
+      const path = [id];
+      let cursor = parent.get(id);
+      while (cursor !== undefined) {
+        path.unshift(cursor);
+        cursor = parent.get(cursor);
+      }
+      return path;
+    }
+    for (const connection of connections) {
+      if (connection.fromCounterId !== id || visited.has(connection.toCounterId)) {
+        continue;
+      }
+      visited.add(connection.toCounterId);
+      parent.set(connection.toCounterId, id);
+      queue.push(connection.toCounterId);
+    }
+  }
+  return null;
+}
+
+/**
+ * The loop a new `from → to` link would close, starting and ending at
+ * `from`, or null when the link is safe to add.
+ */
+export function findLinkCycle(
+  connections: CounterConnection[],
+  fromCounterId: string,
+  toCounterId: string
+): string[] | null {
+  const back = findLinkPath(connections, toCounterId, fromCounterId);
+  return back ? [fromCounterId, ...back] : null;
+}
+
+/**
+ * History entries for every counter that moved between two versions of the
+ * counter list, all sharing one batch so a single undo can step them back
+ * together.
+ */
+export function counterChangeEvents(
+  before: KnitCounter[],
+  after: KnitCounter[],
+  sourceCounterId: string,
+  batchId: string,
+  at: string
+): CounterEvent[] {
+  const previousById = new Map(before.map((counter) => [counter.id, counter]));
+  const events: CounterEvent[] = [];
+  for (const counter of after) {
+    const previous = previousById.get(counter.id);
+    if (!previous) {
+      continue;
+    }
+    const delta = counterPosition(counter) - counterPosition(previous);
+    if (delta === 0) {
+      continue;
+    }
+    events.push({
+      id: `${batchId}:${counter.id}`,
+      counterId: counter.id,
+      batchId,
+      at,
+      delta,
+      value: counter.value,
+      previousValue: previous.value,
+      repeatCount: counter.repeatCount,
+      sourceCounterId: counter.id === sourceCounterId ? undefined : sourceCounterId
+    });
+  }
+  return events;
+}
+
+/**
+ * Steps back the most recent change to a counter that hasn't been undone,
+ * along with whatever that same tap did to counters downstream of it. Each
+ * counter moves back by its recorded delta rather than jumping to a saved
+ * value, so unrelated changes made since are kept. Returns null when there is
+ * nothing to undo.
+ */
+export function undoLatestCounterChange(
+  counters: KnitCounter[],
+  connections: CounterConnection[],
+  events: CounterEvent[],
+  counterId: string
+): { counters: KnitCounter[]; undoneEventIds: string[] } | null {
+  let latest: CounterEvent | undefined;
+  for (let index = events.length - 1; index >= 0; index -= 1) {
+    if (events[index].counterId === counterId && !events[index].undone) {
+      latest = events[index];
+      break;
+    }
+  }
+  if (!latest) {
+    return null;
+  }
+
+  const downstream = new Set<string>([counterId]);
+  const queue = [counterId];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    for (const connection of connections) {
+      if (connection.fromCounterId === id && !downstream.has(connection.toCounterId)) {
+        downstream.add(connection.toCounterId);
+        queue.push(connection.toCounterId);
+      }
+    }
+  }
+
+  const batch = events.filter(
+    (event) => event.batchId === latest?.batchId && !event.undone && downstream.has(event.counterId)
+  );
+  const deltaById = new Map<string, number>();
+  for (const event of batch) {
+    deltaById.set(event.counterId, (deltaById.get(event.counterId) ?? 0) + event.delta);
+  }
+  return {
+    counters: counters.map((counter) => {
+      const delta = deltaById.get(counter.id);
+      return delta === undefined ? counter : withCounterPosition(counter, counterPosition(counter) - delta);
+    }),
+    undoneEventIds: batch.map((event) => event.id)
+  };
+}
+
+/**
+ * Folds the server's copy of the log into the local one. Events are
+ * append-only apart from `undone`, which only ever flips to true.
+ */
+export function mergeCounterEvents(local: CounterEvent[], server: CounterEvent[]): CounterEvent[] {
+  const byId = new Map(local.map((event) => [event.id, event]));
+  for (const event of server) {
+    const existing = byId.get(event.id);
+    byId.set(event.id, existing ? { ...event, undone: event.undone || existing.undone } : event);
+  }
+  return Array.from(byId.values()).sort((left, right) => left.at.localeCompare(right.at));
+}
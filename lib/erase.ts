@@ -1,4 +1,5 @@
 import type { Annotation } from "./project-types";
+import { isSegmentKind } from "./shapes";
 
 export const ERASER_SCREEN_RADIUS = 16;
 
@@ -49,7 +50,8 @@ export function rectIntersectsSegment(
 /**
  * Erases along the eraser drag segment (ax,ay)->(bx,by). Free-draw strokes are
  * split where points fall inside the eraser radius; other shapes are removed
- * whole when the eraser touches them. Returns the next annotation array plus a
+ * whole when the eraser touches them. Annotations `isErasable` rejects (hidden
+ * or locked layers) are left alone. Returns the next annotation array plus a
  * flag indicating whether anything changed (so callers can avoid re-renders).
  */
 export function eraseAlongSegment(
@@ -59,13 +61,14 @@ export function eraseAlongSegment(
   ay: number,
   bx: number,
   by: number,
-  radius: number
+  radius: number,
+  isErasable: (annotation: Annotation) => boolean = () => true
 ): { annotations: Annotation[]; changed: boolean } {
   let changed = false;
   const next: Annotation[] = [];
 
   for (const annotation of annotations) {
-    if (annotation.pageIndex !== pageIndex) {
+    if (annotation.pageIndex !== pageIndex || !isErasable(annotation)) {
       next.push(annotation);
       continue;
     }
@@ -108,7 +111,7 @@ export function eraseAlongSegment(
     }
 
     let touched = false;
-    if (annotation.kind === "line") {
+    if (isSegmentKind(annotation.kind)) {
       const x2 = annotation.x2 ?? annotation.x;
       const y2 = annotation.y2 ?? annotation.y;
       const closestX = clamp((ax + bx) / 2, Math.min(annotation.x, x2), Math.max(annotation.x, x2));
@@ -0,0 +1,216 @@
+import type { PageTextLine } from "./pdf-text";
+import type { GlossaryEntry } from "./project-types";
+
+// Standard abbreviations (Craft Yarn Council list plus common additions).
+export const BUILT_IN_GLOSSARY: GlossaryEntry[] = [
+  { term: "alt", definition: "alternate" },
+  { term: "approx", definition: "approximately" },
+  { term: "beg", definition: "begin / beginning" },
+  { term: "BO", definition: "bind off" },
+  { term: "CC", definition: "contrasting color" },
+  { term: "cdd", definition: "centered double decrease: slip 2 together knitwise, k1, pass the 2 slipped stitches over" },
+  { term: "cn", definition: "cable needle" },
+  { term: "CO", definition: "cast on" },
+  { term: "cont", definition: "continue" },
+  { term: "dec", definition: "decrease" },
+  { term: "dpn", definition: "double-pointed needle(s)" },
+  { term: "est", definition: "established" },
+  { term: "foll", definition: "following" },
+  { term: "g st", definition: "garter stitch: knit every row" },
+  { term: "inc", definition: "increase" },
+  { term: "k", definition: "knit" },
+  { term: "k2tog", definition: "knit 2 stitches together (right-leaning decrease)" },
+  { term: "k3tog", definition: "knit 3 stitches together (right-leaning double decrease)" },
+  { term: "kfb", definition: "knit into the front and back of the same stitch (increase)" },
+  { term: "kwise", definition: "knitwise: as if to knit" },
+  { term: "LH", definition: "left hand" },
+  { term: "m", definition: "marker" },
+  { term: "M1", definition: "make 1: lift the bar between stitches and knit it through the back loop" },
+  { term: "M1L", definition: "make 1 left: lift the bar front to back and knit it through the back loop" },
+  { term: "M1R", definition: "make 1 right: lift the bar back to front and knit it through the front loop" },
+  { term: "M1P", definition: "make 1 purlwise" },
+  { term: "MC", definition: "main color" },
+  { term: "p", definition: "purl" },
+  { term: "p2tog", definition: "purl 2 stitches together" },
+  { term: "patt", definition: "pattern" },
+  { term: "pfb", definition: "purl into the front and back of the same stitch (increase)" },
+  { term: "pm", definition: "place marker" },
+  { term: "psso", definition: "pass slipped stitch over" },
+  { term: "p2sso", definition: "pass 2 slipped stitches over" },
+  { term: "pwise", definition: "purlwise: as if to purl" },
+  { term: "rem", definition: "remain / remaining" },
+  { term: "rep", definition: "repeat" },
+  { term: "rev St st", definition: "reverse stockinette stitch: purl RS rows, knit WS rows" },
+  { term: "RH", definition: "right hand" },
+  { term: "rnd", definition: "round" },
+  { term: "RS", definition: "right side" },
+  { term: "sk2p", definition: "slip 1, k2tog, pass the slipped stitch over (left-leaning double decrease)" },
+  { term: "sl", definition: "slip" },
+  { term: "sl1", definition: "slip 1 stitch" },
+  { term: "sl st", definition: "slip stitch" },
+  { term: "sm", definition: "slip marker" },
+  { term: "ssk", definition: "slip, slip, knit: slip 2 stitches knitwise one at a time, knit them together through the back loops (left-leaning decrease)" },
+  { term: "ssp", definition: "slip, slip, purl: slip 2 stitches knitwise one at a time, purl them together through the back loops" },
+  { term: "sssk", definition: "slip, slip, slip, knit: as ssk with 3 stitches (left-leaning double decrease)" },
+  { term: "St st", definition: "stockinette stitch: knit RS rows, purl WS rows" },
+  { term: "st", definition: "stitch" },
+  { term: "sts", definition: "stitches" },
+  { term: "tbl", definition: "through the back loop" },
+  { term: "tog", definition: "together" },
+  { term: "w&t", definition: "wrap and turn (short rows)" },
+  { term: "WS", definition: "wrong side" },
+  { term: "wyib", definition: "with yarn in back" },
+  { term: "wyif", definition: "with yarn in front" },
+  { term: "yo", definition: "yarn over" }
+];
+
+export function normalizeGlossaryTerm(term: string): string {
+  return term.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export type GlossaryMatch = {
+  entry: GlossaryEntry;
+  builtIn: boolean;
+};
+
+function findEntry(entries: GlossaryEntry[], key: string): GlossaryEntry | undefined {
+  return entries.find((entry) => normalizeGlossaryTerm(entry.term) === key);
+}
+
+/**
+ * The definition of a word as it appears in the pattern. A stitch count
+ * glued to an abbreviation ("k12", "p2") falls back to the bare
+ * abbreviation when the word itself isn't listed.
+ */
+export function lookupGlossary(word: string, projectEntries: GlossaryEntry[]): GlossaryMatch | null {
+  const key = normalizeGlossaryTerm(word);
+  if (!key) {
+    return null;
+  }
+  const candidates = [key, key.replace(/\d+$/, "")].filter(Boolean);
+  for (const candidate of candidates) {
+    const own = findEntry(projectEntries, candidate);
+    if (own) {
+      return { entry: own, builtIn: false };
+    }
+    const builtIn = findEntry(BUILT_IN_GLOSSARY, candidate);
+    if (builtIn) {
+      return { entry: builtIn, builtIn: true };
+    }
+  }
+  return null;
+}
+
+/**
+ * The word around character `offset` of a line, without the punctuation a
+ * pattern wraps around abbreviations ("(k2tog)", "ssk,"). `&` and `/` stay
+ * part of the word for terms like "w&t".
+ */
+export function wordAtOffset(text: string, offset: number): string | null {
+  let start = Math.min(Math.max(0, offset), text.length);
+  let end = start;
+  while (start > 0 && !/\s/.test(text[start - 1])) {
+    start -= 1;
+  }
+  while (end < text.length && !/\s/.test(text[end])) {
+    end += 1;
+  }
+  const word = text.slice(start, end).replace(/^[^\w&/]+|[^\w&/]+$/g, "");
+  return word || null;
+}
+
+/** Project entries first, then the built-in ones they don't override. */
+export function combinedGlossary(projectEntries: GlossaryEntry[]): GlossaryMatch[] {
+  const own = new Set(projectEntries.map((entry) => normalizeGlossaryTerm(entry.term)));
+  return [
+    ...projectEntries.map((entry) => ({ entry, builtIn: false })),
+    ...BUILT_IN_GLOSSARY.filter((entry) => !own.has(normalizeGlossaryTerm(entry.term))).map((entry) => ({
+      entry,
+      builtIn: true
+    }))
+  ];
+}
+
+export function searchGlossary(matches: GlossaryMatch[], query: string): GlossaryMatch[] {
+  const needle = normalizeGlossaryTerm(query);
+  if (!needle) {
+    return matches;
+  }
+  return matches.filter(
+    ({ entry }) =>
+      normalizeGlossaryTerm(entry.term).includes(needle) || entry.definition.toLowerCase().includes(needle)
+  );
+}
+
+/** Adds entries, replacing any existing entry for the same term. */
+export function mergeGlossary(existing: GlossaryEntry[], added: GlossaryEntry[]): GlossaryEntry[] {
+  const addedKeys = new Set(added.map((entry) => normalizeGlossaryTerm(entry.term)));
+  return [...existing.filter((entry) => !addedKeys.has(normalizeGlossaryTerm(entry.term))), ...added];
+}
+
+const MAX_TERM_LENGTH = 16;
+// "k2tog: knit two together", "k2tog = …", "k2tog – …" (but not the hyphen
+// inside "k1-b", which needs spaces around it to count).
+const SEPARATED = /^(.{1,16}?)\s*(?:[:=]|\s[-–—]\s|\t)\s*(.+)$/;
+
+function splitEntry(text: string): GlossaryEntry | null {
+  const separated = SEPARATED.exec(text);
+  if (separated) {
+    return { term: separated[1].trim(), definition: separated[2].trim() };
+  }
+  const space = text.indexOf(" ");
+  if (space <= 0 || space > MAX_TERM_LENGTH) {
+    return null;
+  }
+  return { term: text.slice(0, space), definition: text.slice(space + 1).trim() };
+}
+
+/**
+ * Reads an abbreviations section: the text lines inside a box on the page.
+ * Lines on the same row are a term and its definition when the PDF spaced
+ * them apart as columns; otherwise the term is split off at a separator or
+ * the first space. A row that starts further right than the terms do
+ * continues the previous definition.
+ */
+export function parseGlossaryLines(lines: PageTextLine[]): GlossaryEntry[] {
+  const rows: PageTextLine[][] = [];
+  for (const line of [...lines].sort((left, right) => left.y - right.y || left.x - right.x)) {
+    const row = rows.find((candidate) => Math.abs(candidate[0].y - line.y) <= Math.min(candidate[0].height, line.height) * 0.4);
+    if (row) {
+      row.push(line);
+      row.sort((left, right) => left.x - right.x);
+    } else {
+      rows.push([line]);
+    }
+  }
+
+  const entries: GlossaryEntry[] = [];
+  let termX: number | null = null;
+  for (const row of rows) {
+    const first = row[0];
+    const last = entries[entries.length - 1];
+    if (row.length === 1 && last && termX !== null && first.x > termX + first.height) {
+      last.definition = `${last.definition} ${first.text}`;
+      continue;
+    }
+    if (row.length > 1) {
+      // Two side-by-side term/definition columns come through as four lines.
+      const pairs = row.length % 2 === 0 && row.length > 2 ? row.length / 2 : 1;
+      for (let pair = 0; pair < pairs; pair += 1) {
+        const term = row[pair * 2].text.trim();
+        const definition = (pairs === 1 ? row.slice(1) : [row[pair * 2 + 1]]).map((line) => line.text).join(" ").trim();
+        if (term.length <= MAX_TERM_LENGTH && definition) {
+          entries.push({ term, definition });
+        }
+      }
+      termX = first.x;
+      continue;
+    }
+    const entry = splitEntry(first.text.trim());
+    if (entry && entry.definition) {
+      entries.push(entry);
+      termX = first.x;
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,99 @@
+export type KeyAction =
+  | "increment"
+  | "decrement"
+  | "undo"
+  | "nextCounter"
+  | "previousCounter"
+  | "nextAnchor"
+  | "previousAnchor"
+  | "nextPage"
+  | "previousPage";
+
+// Keys are stored as produced by `keyFromEvent`, e.g. "PageDown", "Space", "u".
+export type KeyBindings = Record<KeyAction, string[]>;
+
+export const KEY_ACTIONS: { id: KeyAction; label: string }[] = [
+  { id: "increment", label: "Active counter +1" },
+  { id: "decrement", label: "Active counter −1" },
+  { id: "undo", label: "Undo on active counter" },
+  { id: "nextCounter", label: "Next counter" },
+  { id: "previousCounter", label: "Previous counter" },
+  { id: "nextAnchor", label: "Next bookmark" },
+  { id: "previousAnchor", label: "Previous bookmark" },
+  { id: "nextPage", label: "Next page" },
+  { id: "previousPage", label: "Previous page" }
+];
+
+// Page-turner pedals send PageDown/PageUp or the arrow keys, so those drive
+// the counter out of the box. Space is left free: it scrolls the page and
+// presses whichever button has focus.
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  increment: ["PageDown", "ArrowRight"],
+  decrement: ["PageUp", "ArrowLeft"],
+  undo: ["u"],
+  nextCounter: ["]"],
+  previousCounter: ["["],
+  nextAnchor: ["."],
+  previousAnchor: [","],
+  nextPage: ["n"],
+  previousPage: ["p"]
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  PageUp: "PgUp",
+  PageDown: "PgDn",
+  Space: "Space",
+  Enter: "Enter",
+  Backspace: "⌫"
+};
+
+/**
+ * The binding name for a key press, or null for presses that belong to the
+ * browser or other shortcuts (anything with Ctrl/Cmd/Alt, bare modifiers).
+ */
+export function keyFromEvent(event: Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey">): string | null {
+  if (event.ctrlKey || event.metaKey || event.altKey) {
+    return null;
+  }
+  if (["Shift", "Control", "Meta", "Alt", "CapsLock", "Tab", "Escape", "Unidentified"].includes(event.key)) {
+    return null;
+  }
+  if (event.key === " ") {
+    return "Space";
+  }
+  return event.key.length === 1 ? event.key.toLowerCase() : event.key;
+}
+
+export function formatKey(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+export function actionForKey(bindings: KeyBindings, key: string): KeyAction | null {
+  return KEY_ACTIONS.find((action) => bindings[action.id].includes(key))?.id ?? null;
+}
+
+/** Gives `key` to `action`, taking it away from whichever action had it. */
+export function assignKey(bindings: KeyBindings, action: KeyAction, key: string): KeyBindings {
+  const next = { ...bindings };
+  for (const { id } of KEY_ACTIONS) {
+    next[id] = next[id].filter((existing) => existing !== key);
+  }
+  next[action] = [...next[action], key];
+  return next;
+}
+
+/** Fills in actions missing from stored bindings (older saves, new actions). */
+export function normalizeKeyBindings(value: Partial<Record<string, string[]>> | null | undefined): KeyBindings {
+  const next = { ...DEFAULT_KEY_BINDINGS };
+  for (const { id } of KEY_ACTIONS) {
+    const keys = value?.[id];
+    if (Array.isArray(keys)) {
+      next[id] = keys.filter((key) => typeof key === "string");
+    }
+  }
+  return next;
+}
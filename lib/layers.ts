@@ -0,0 +1,40 @@
+import type { Annotation, AnnotationLayer } from "./project-types";
+
+/**
+ * The layer an annotation is drawn on. Marks from before layers existed, or
+ * whose layer no longer exists, belong to the bottom layer.
+ */
+export function annotationLayerId(annotation: Annotation, layers: AnnotationLayer[]): string {
+  if (annotation.layerId && layers.some((layer) => layer.id === annotation.layerId)) {
+    return annotation.layerId;
+  }
+  return layers[0]?.id ?? "";
+}
+
+/** Visible annotations in drawing order: bottom layer first, then by age. */
+export function visibleAnnotationsByLayer(annotations: Annotation[], layers: AnnotationLayer[]): Annotation[] {
+  const order = new Map(layers.map((layer, index) => [layer.id, index]));
+  return annotations
+    .map((annotation, index) => ({ annotation, index, layer: order.get(annotationLayerId(annotation, layers)) ?? 0 }))
+    .filter(({ layer }) => layers[layer]?.visible !== false)
+    .sort((a, b) => a.layer - b.layer || a.index - b.index)
+    .map(({ annotation }) => annotation);
+}
+
+/** Whether the select tool and eraser may touch an annotation. */
+export function isAnnotationEditable(annotation: Annotation, layers: AnnotationLayer[]): boolean {
+  const layer = layers.find((item) => item.id === annotationLayerId(annotation, layers));
+  return !layer || (layer.visible && !layer.locked);
+}
+
+export function moveLayer(layers: AnnotationLayer[], layerId: string, offset: number): AnnotationLayer[] {
+  const index = layers.findIndex((layer) => layer.id === layerId);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= layers.length) {
+    return layers;
+  }
+  const next = [...layers];
+  const [moved] = next.splice(index, 1);
+  next.splice(target, 0, moved);
+  return next;
+}
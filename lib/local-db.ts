@@ -1,8 +1,9 @@
+import type { PageTextLine } from "./pdf-text";
 import type { ProjectMetadata, ProjectRecord, ProjectWorkspace } from "./project-types";
 import { normalizeWorkspace } from "./workspace-utils";
 
 const DB_NAME = "whichstitch-projects";
-const DB_VERSION = 2;
+const DB_VERSION = 4;
 
 // v1 stores from the local-first era. Kept read-only so devices that never
 // signed in can still migrate their projects into an account.
@@ -16,6 +17,13 @@ const CACHED_PROJECTS_STORE = "cachedProjects";
 const CACHED_PDFS_STORE = "cachedPdfs";
 const CACHED_WORKSPACES_STORE = "cachedWorkspaces";
 
+// v3: each project's PDF text lines, so search and the checklist skip pdf.js
+// text extraction on later visits and work offline.
+const CACHED_PAGE_TEXT_STORE = "cachedPageText";
+
+// v4: small page images for the page sidebar, filled in as pages are drawn.
+const CACHED_PAGE_THUMBNAILS_STORE = "cachedPageThumbnails";
+
 type LegacyFileRecord = {
   projectId: string;
   pdfBlob: Blob;
@@ -37,6 +45,20 @@ type CachedPdfRecord = {
   fingerprint: string;
 };
 
+// Stamped with the PDF fingerprint so a replaced file never reuses old text.
+type CachedPageTextRecord = {
+  projectId: string;
+  fingerprint: string;
+  pages: PageTextLine[][];
+};
+
+// Data URLs by page index; pages not drawn yet are missing.
+type CachedPageThumbnailsRecord = {
+  projectId: string;
+  fingerprint: string;
+  thumbnails: Record<number, string>;
+};
+
 type CachedWorkspaceRecord = {
   projectId: string;
   workspace: ProjectWorkspace;
@@ -94,6 +116,12 @@ async function openDatabase(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(CACHED_WORKSPACES_STORE)) {
         db.createObjectStore(CACHED_WORKSPACES_STORE, { keyPath: "projectId" });
       }
+      if (!db.objectStoreNames.contains(CACHED_PAGE_TEXT_STORE)) {
+        db.createObjectStore(CACHED_PAGE_TEXT_STORE, { keyPath: "projectId" });
+      }
+      if (!db.objectStoreNames.contains(CACHED_PAGE_THUMBNAILS_STORE)) {
+        db.createObjectStore(CACHED_PAGE_THUMBNAILS_STORE, { keyPath: "projectId" });
+      }
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -226,14 +254,75 @@ export async function markCachedWorkspaceClean(projectId: string, revision: numb
   await transactionToPromise(transaction);
 }
 
+export async function readCachedPageText(projectId: string, fingerprint: string): Promise<PageTextLine[][] | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CACHED_PAGE_TEXT_STORE, "readonly");
+  const record = (await requestToPromise(
+    transaction.objectStore(CACHED_PAGE_TEXT_STORE).get(projectId)
+  )) as CachedPageTextRecord | undefined;
+  await transactionToPromise(transaction);
+  return record && record.fingerprint === fingerprint ? record.pages : null;
+}
+
+export async function writeCachedPageText(
+  projectId: string,
+  fingerprint: string,
+  pages: PageTextLine[][]
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CACHED_PAGE_TEXT_STORE, "readwrite");
+  transaction.objectStore(CACHED_PAGE_TEXT_STORE).put({
+    projectId,
+    fingerprint,
+    pages
+  } satisfies CachedPageTextRecord);
+  await transactionToPromise(transaction);
+}
+
+export async function readCachedPageThumbnails(
+  projectId: string,
+  fingerprint: string
+): Promise<Record<number, string> | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CACHED_PAGE_THUMBNAILS_STORE, "readonly");
+  const record = (await requestToPromise(
+    transaction.objectStore(CACHED_PAGE_THUMBNAILS_STORE).get(projectId)
+  )) as CachedPageThumbnailsRecord | undefined;
+  await transactionToPromise(transaction);
+  return record && record.fingerprint === fingerprint ? record.thumbnails : null;
+}
+
+export async function writeCachedPageThumbnails(
+  projectId: string,
+  fingerprint: string,
+  thumbnails: Record<number, string>
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CACHED_PAGE_THUMBNAILS_STORE, "readwrite");
+  transaction.objectStore(CACHED_PAGE_THUMBNAILS_STORE).put({
+    projectId,
+    fingerprint,
+    thumbnails
+  } satisfies CachedPageThumbnailsRecord);
+  await transactionToPromise(transaction);
+}
+
 export async function deleteCachedProject(projectId: string): Promise<void> {
   const db = await openDatabase();
   const transaction = db.transaction(
-    [CACHED_PROJECTS_STORE, CACHED_PDFS_STORE, CACHED_WORKSPACES_STORE],
+    [
+      CACHED_PROJECTS_STORE,
+      CACHED_PDFS_STORE,
+      CACHED_WORKSPACES_STORE,
+      CACHED_PAGE_TEXT_STORE,
+      CACHED_PAGE_THUMBNAILS_STORE
+    ],
     "readwrite"
   );
   transaction.objectStore(CACHED_PROJECTS_STORE).delete(projectId);
   transaction.objectStore(CACHED_PDFS_STORE).delete(projectId);
   transaction.objectStore(CACHED_WORKSPACES_STORE).delete(projectId);
+  transaction.objectStore(CACHED_PAGE_TEXT_STORE).delete(projectId);
+  transaction.objectStore(CACHED_PAGE_THUMBNAILS_STORE).delete(projectId);
   await transactionToPromise(transaction);
 }
@@ -0,0 +1,81 @@
+import { counterPosition } from "./counters";
+import type { CounterEvent, KnitCounter, KnitSession } from "./project-types";
+
+// A pause longer than this ends the session; the next tap starts a new one.
+// Long enough to cover knitting a full row of a wide piece between taps.
+export const SESSION_IDLE_MS = 40 * 60 * 1000;
+
+// Below this much timed knitting a rate is mostly noise, so none is shown.
+const MIN_PACE_SAMPLE_MS = 5 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function sessionDurationMs(session: KnitSession): number {
+  return Math.max(0, Date.parse(session.endedAt) - Date.parse(session.startedAt));
+}
+
+/** Whether activity at `at` still belongs to `session` or starts a new one. */
+export function continuesSession(session: KnitSession | null, at: string): session is KnitSession {
+  return session !== null && Date.parse(at) - Date.parse(session.endedAt) <= SESSION_IDLE_MS;
+}
+
+/** "2h 05m", "14 min", "<1 min". */
+export function formatKnitDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) {
+    return "<1 min";
+  }
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * Ticks per hour for a set of counters: their logged movement during
+ * sessions, divided by the time those sessions lasted. Only sessions in which
+ * the counters actually moved count, so time spent on another piece doesn't
+ * drag the rate down. A change that propagated from another counter in the
+ * set is the same knitting counted twice, so it's left out; one that came
+ * from outside the set is how a linked counter moves, so it counts.
+ * Returns null until there's enough timed knitting.
+ */
+export function countersPerHour(
+  events: CounterEvent[],
+  sessions: KnitSession[],
+  counterIds: Set<string>
+): number | null {
+  let ticks = 0;
+  let durationMs = 0;
+  for (const session of sessions) {
+    let sessionTicks = 0;
+    for (const event of events) {
+      if (
+        !event.undone &&
+        !(event.sourceCounterId && counterIds.has(event.sourceCounterId)) &&
+        counterIds.has(event.counterId) &&
+        event.at >= session.startedAt &&
+        event.at <= session.endedAt
+      ) {
+        sessionTicks += event.delta;
+      }
+    }
+    if (sessionTicks > 0) {
+      ticks += sessionTicks;
+      durationMs += sessionDurationMs(session);
+    }
+  }
+  if (durationMs < MIN_PACE_SAMPLE_MS) {
+    return null;
+  }
+  return ticks / (durationMs / HOUR_MS);
+}
+
+/** Knitting time left until a counter reaches its target at the given pace. */
+export function targetEtaMs(counter: KnitCounter, perHour: number | null): number | null {
+  if (counter.target === undefined || !perHour || perHour <= 0) {
+    return null;
+  }
+  const remaining = counter.target - counterPosition(counter);
+  return remaining > 0 ? (remaining / perHour) * HOUR_MS : null;
+}
@@ -0,0 +1,284 @@
+import {
+  PAGE_ROTATIONS,
+  type PageCrop,
+  type PageMetric,
+  type PageRotation,
+  type PageTransform
+} from "./project-types";
+
+export type PagePoint = {
+  x: number;
+  y: number;
+};
+
+// A page's box as shown, in CSS pixels, and the transform that lays the
+// page into it.
+export type PageBox = {
+  width: number;
+  height: number;
+  contentTransform: string | undefined;
+};
+
+function cropBox(transform: PageTransform | undefined, metric: PageMetric): PageCrop {
+  return transform?.crop ?? { x: 0, y: 0, width: metric.width, height: metric.height };
+}
+
+function isQuarterTurned(transform: PageTransform | undefined): boolean {
+  return transform?.rotation === 90 || transform?.rotation === 270;
+}
+
+export function pageTransformFor(transforms: PageTransform[], pageIndex: number): PageTransform | undefined {
+  return transforms.find((transform) => transform.pageIndex === pageIndex);
+}
+
+/**
+ * Changes one page's transform. A page put back to as-is loses its entry,
+ * so the list only ever holds pages that are actually changed.
+ */
+export function updatePageTransform(
+  transforms: PageTransform[],
+  pageIndex: number,
+  update: (current: PageTransform) => PageTransform
+): PageTransform[] {
+  const next = update(pageTransformFor(transforms, pageIndex) ?? { pageIndex, rotation: 0 });
+  const others = transforms.filter((transform) => transform.pageIndex !== pageIndex);
+  if (next.rotation === 0 && !next.crop) {
+    return others;
+  }
+  return [...others, { ...next, pageIndex }].sort((left, right) => left.pageIndex - right.pageIndex);
+}
+
+export function turnRotation(rotation: PageRotation, quarterTurns: number): PageRotation {
+  const index = PAGE_ROTATIONS.indexOf(rotation) + quarterTurns;
+  return PAGE_ROTATIONS[((index % 4) + 4) % 4];
+}
+
+export function rotatePage(transforms: PageTransform[], pageIndex: number, quarterTurns: number): PageTransform[] {
+  return updatePageTransform(transforms, pageIndex, (current) => ({
+    ...current,
+    rotation: turnRotation(current.rotation, quarterTurns)
+  }));
+}
+
+/** Sets or (with undefined) clears one page's crop, keeping its rotation. */
+export function cropPage(transforms: PageTransform[], pageIndex: number, crop: PageCrop | undefined): PageTransform[] {
+  return updatePageTransform(transforms, pageIndex, (current) => ({ ...current, crop }));
+}
+
+export function cropPages(transforms: PageTransform[], crops: Map<number, PageCrop>): PageTransform[] {
+  return Array.from(crops).reduce((next, [pageIndex, crop]) => cropPage(next, pageIndex, crop), transforms);
+}
+
+export function resetPage(transforms: PageTransform[], pageIndex: number): PageTransform[] {
+  return updatePageTransform(transforms, pageIndex, () => ({ pageIndex, rotation: 0 }));
+}
+
+/** The page as shown: the crop box, turned. In page units. */
+export function displayPageSize(transform: PageTransform | undefined, metric: PageMetric): PageMetric {
+  const crop = cropBox(transform, metric);
+  return isQuarterTurned(transform)
+    ? { width: crop.height, height: crop.width }
+    : { width: crop.width, height: crop.height };
+}
+
+/** Where a point of the unrotated page appears on the shown page. */
+export function pageToDisplay(transform: PageTransform | undefined, metric: PageMetric, point: PagePoint): PagePoint {
+  const crop = cropBox(transform, metric);
+  const x = point.x - crop.x;
+  const y = point.y - crop.y;
+  switch (transform?.rotation ?? 0) {
+    case 90:
+      return { x: crop.height - y, y: x };
+    case 180:
+      return { x: crop.width - x, y: crop.height - y };
+    case 270:
+      return { x: y, y: crop.width - x };
+    default:
+      return { x, y };
+  }
+}
+
+/** The point of the unrotated page under a point of the shown page. */
+export function displayToPage(transform: PageTransform | undefined, metric: PageMetric, point: PagePoint): PagePoint {
+  const crop = cropBox(transform, metric);
+  let x = point.x;
+  let y = point.y;
+  switch (transform?.rotation ?? 0) {
+    case 90:
+      x = point.y;
+      y = crop.height - point.x;
+      break;
+    case 180:
+      x = crop.width - point.x;
+      y = crop.height - point.y;
+      break;
+    case 270:
+      x = crop.width - point.y;
+      y = point.x;
+      break;
+  }
+  return { x: x + crop.x, y: y + crop.y };
+}
+
+/**
+ * The CSS transform that lays the whole unrotated page (canvas and every
+ * overlay on it) into the shown page box, or undefined for a page shown
+ * as-is. The page box clips what's outside the crop.
+ */
+export function pageContentTransform(
+  transform: PageTransform | undefined,
+  metric: PageMetric,
+  zoom: number
+): string | undefined {
+  if (!transform || (transform.rotation === 0 && !transform.crop)) {
+    return undefined;
+  }
+  const crop = cropBox(transform, metric);
+  const shift = `translate(${-crop.x * zoom}px, ${-crop.y * zoom}px)`;
+  switch (transform.rotation) {
+    case 90:
+      return `translate(${crop.height * zoom}px, 0) rotate(90deg) ${shift}`;
+    case 180:
+      return `translate(${crop.width * zoom}px, ${crop.height * zoom}px) rotate(180deg) ${shift}`;
+    case 270:
+      return `translate(0, ${crop.width * zoom}px) rotate(270deg) ${shift}`;
+    default:
+      return shift;
+  }
+}
+
+export function layoutPageBoxes(pages: PageMetric[], transforms: PageTransform[], zoom: number): PageBox[] {
+  return pages.map((page, pageIndex) => {
+    const transform = pageTransformFor(transforms, pageIndex);
+    const shown = displayPageSize(transform, page);
+    return {
+      width: shown.width * zoom,
+      height: shown.height * zoom,
+      contentTransform: pageContentTransform(transform, page, zoom)
+    };
+  });
+}
+
+/**
+ * Bookmarks remember how far down a page they are as a fraction of the
+ * uncropped page, so changing the crop doesn't move them. On a
+ * quarter-turned page, "down the screen" runs along the page's x axis.
+ */
+export function pageRatioAtDisplayY(transform: PageTransform | undefined, metric: PageMetric, displayY: number): number {
+  const size = displayPageSize(transform, metric);
+  const point = displayToPage(transform, metric, { x: size.width / 2, y: displayY });
+  const ratio = isQuarterTurned(transform) ? point.x / metric.width : point.y / metric.height;
+  return Math.min(1, Math.max(0, ratio));
+}
+
+export function displayYAtPageRatio(transform: PageTransform | undefined, metric: PageMetric, ratio: number): number {
+  const crop = cropBox(transform, metric);
+  const point = isQuarterTurned(transform)
+    ? { x: ratio * metric.width, y: crop.y + crop.height / 2 }
+    : { x: crop.x + crop.width / 2, y: ratio * metric.height };
+  const size = displayPageSize(transform, metric);
+  return Math.min(size.height, Math.max(0, pageToDisplay(transform, metric, point).y));
+}
+
+/**
+ * A region of a rendered page (in page units) copied out at no more than
+ * `maxDim` pixels a side and turned the way the page is shown, so the copy
+ * reads the same as the page.
+ */
+export function capturePageRegion(
+  source: HTMLCanvasElement,
+  metric: PageMetric,
+  region: PageCrop,
+  rotation: PageRotation,
+  maxDim: number
+): HTMLCanvasElement | null {
+  const scaleX = source.width / metric.width;
+  const scaleY = source.height / metric.height;
+  const sx = Math.max(0, Math.floor(region.x * scaleX));
+  const sy = Math.max(0, Math.floor(region.y * scaleY));
+  const sw = Math.max(1, Math.floor(region.width * scaleX));
+  const sh = Math.max(1, Math.floor(region.height * scaleY));
+
+  const scale = Math.min(1, maxDim / Math.max(sw, sh));
+  const tw = Math.max(1, Math.floor(sw * scale));
+  const th = Math.max(1, Math.floor(sh * scale));
+
+  const quarterTurned = rotation === 90 || rotation === 270;
+  const target = document.createElement("canvas");
+  target.width = quarterTurned ? th : tw;
+  target.height = quarterTurned ? tw : th;
+  const context = target.getContext("2d");
+  if (!context) {
+    return null;
+  }
+
+  context.translate(target.width / 2, target.height / 2);
+  context.rotate((rotation * Math.PI) / 180);
+  context.drawImage(source, sx, sy, sw, sh, -tw / 2, -th / 2, tw, th);
+  return target;
+}
+
+const TRIM_SAMPLE_DIM = 480;
+// Channel level below which a pixel counts as ink; scans are rarely pure white.
+const TRIM_INK_LEVEL = 232;
+// Page units kept around the content so nothing touches the page edge.
+const TRIM_PADDING = 8;
+
+/**
+ * The smallest box around everything printed on a rendered page, found by
+ * scanning a downscaled copy of the canvas for rows and columns with ink.
+ * A few stray pixels (scanner dust) don't count. Null when the page is
+ * blank or already has no margin worth trimming.
+ */
+export function findContentBox(source: HTMLCanvasElement, metric: PageMetric): PageCrop | null {
+  if (source.width < 1 || source.height < 1) {
+    return null;
+  }
+  const scale = Math.min(1, TRIM_SAMPLE_DIM / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    return null;
+  }
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const rowInk = new Array<number>(height).fill(0);
+  const columnInk = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      if (Math.min(data[offset], data[offset + 1], data[offset + 2]) < TRIM_INK_LEVEL) {
+        rowInk[y] += 1;
+        columnInk[x] += 1;
+      }
+    }
+  }
+  const rowMin = Math.max(1, Math.round(width * 0.004));
+  const columnMin = Math.max(1, Math.round(height * 0.004));
+  const top = rowInk.findIndex((count) => count >= rowMin);
+  const left = columnInk.findIndex((count) => count >= columnMin);
+  if (top === -1 || left === -1) {
+    return null;
+  }
+  const bottom = height - 1 - [...rowInk].reverse().findIndex((count) => count >= rowMin);
+  const right = width - 1 - [...columnInk].reverse().findIndex((count) => count >= columnMin);
+
+  const unitX = metric.width / width;
+  const unitY = metric.height / height;
+  const x = Math.max(0, left * unitX - TRIM_PADDING);
+  const y = Math.max(0, top * unitY - TRIM_PADDING);
+  const crop = {
+    x,
+    y,
+    width: Math.min(metric.width, (right + 1) * unitX + TRIM_PADDING) - x,
+    height: Math.min(metric.height, (bottom + 1) * unitY + TRIM_PADDING) - y
+  };
+  return crop.width >= metric.width * 0.98 && crop.height >= metric.height * 0.98 ? null : crop;
+}
@@ -0,0 +1,126 @@
+import type { PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+/** A place in the document; `y` is in page units (viewport scale 1), or null for the page top. */
+export type PdfDestination = {
+  pageIndex: number;
+  y: number | null;
+};
+
+// One entry of the PDF's own bookmarks, flattened in reading order.
+export type PdfOutlineItem = {
+  id: string;
+  title: string;
+  depth: number;
+  destination: PdfDestination;
+};
+
+/** A link on a page that goes somewhere else in the same document. */
+export type PdfLink = {
+  id: string;
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  destination: PdfDestination;
+};
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+
+function isPageRef(value: unknown): value is { num: number; gen: number } {
+  return typeof value === "object" && value !== null && "num" in value && "gen" in value;
+}
+
+/**
+ * Resolves a named or explicit destination to a page and the height it
+ * points at. Explicit destinations are `[page, {name: type}, ...args]`,
+ * where the page is a reference or (in some generators) a page index.
+ */
+export async function resolvePdfDestination(
+  pdfDoc: PDFDocumentProxy,
+  dest: string | unknown[] | null | undefined
+): Promise<PdfDestination | null> {
+  const explicit = typeof dest === "string" ? await pdfDoc.getDestination(dest) : dest;
+  if (!Array.isArray(explicit) || explicit.length < 2) {
+    return null;
+  }
+  const [target, kind, ...args] = explicit as [unknown, { name?: string } | null, ...unknown[]];
+  let pageIndex: number;
+  if (isPageRef(target)) {
+    pageIndex = await pdfDoc.getPageIndex(target);
+  } else if (typeof target === "number" && Number.isInteger(target)) {
+    pageIndex = target;
+  } else {
+    return null;
+  }
+  if (pageIndex < 0 || pageIndex >= pdfDoc.numPages) {
+    return null;
+  }
+
+  // XYZ is [left, top, zoom]; FitH/FitBH are [top]; FitR is
+  // [left, bottom, right, top]. Fit and FitB show the whole page.
+  const name = kind?.name;
+  const top = name === "XYZ" ? args[1] : name === "FitH" || name === "FitBH" ? args[0] : name === "FitR" ? args[3] : null;
+  if (typeof top !== "number") {
+    return { pageIndex, y: null };
+  }
+  const page = await pdfDoc.getPage(pageIndex + 1);
+  const viewport = page.getViewport({ scale: 1 });
+  const [, y] = viewport.convertToViewportPoint(0, top);
+  return { pageIndex, y: Math.min(Math.max(0, y), viewport.height) };
+}
+
+/**
+ * The document outline as a flat list with nesting depth. Entries that
+ * point outside the document (web links, broken destinations) are left
+ * out, but their children are kept.
+ */
+export async function getPdfOutline(pdfDoc: PDFDocumentProxy): Promise<PdfOutlineItem[]> {
+  const outline = await pdfDoc.getOutline();
+  const items: PdfOutlineItem[] = [];
+
+  async function visit(nodes: OutlineNode[], depth: number) {
+    for (const node of nodes) {
+      const destination = await resolvePdfDestination(pdfDoc, node.dest).catch(() => null);
+      const title = node.title.trim();
+      if (destination && title) {
+        items.push({ id: `outline-${items.length}`, title, depth, destination });
+      }
+      if (node.items?.length) {
+        await visit(node.items, depth + 1);
+      }
+    }
+  }
+
+  await visit(outline ?? [], 0);
+  return items;
+}
+
+/** The page's internal links, as rectangles in page units from the top left. */
+export async function getPageLinks(pdfDoc: PDFDocumentProxy, pageIndex: number): Promise<PdfLink[]> {
+  const page = await pdfDoc.getPage(pageIndex + 1);
+  const viewport = page.getViewport({ scale: 1 });
+  const annotations = await page.getAnnotations({ intent: "display" });
+
+  const links: PdfLink[] = [];
+  for (const annotation of annotations) {
+    if (annotation.subtype !== "Link" || !annotation.dest || !Array.isArray(annotation.rect)) {
+      continue;
+    }
+    const destination = await resolvePdfDestination(pdfDoc, annotation.dest).catch(() => null);
+    if (!destination) {
+      continue;
+    }
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+    links.push({
+      id: `${pageIndex}:${links.length}`,
+      pageIndex,
+      x: Math.min(x1, x2),
+      y: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+      destination
+    });
+  }
+  return links;
+}
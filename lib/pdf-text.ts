@@ -0,0 +1,129 @@
+import type { PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+// Where a run of the line's text was drawn; `start` is its offset in `text`.
+export type TextLineFragment = {
+  start: number;
+  length: number;
+  x: number;
+  width: number;
+};
+
+/** One line of a page's text layer, in page units (viewport scale 1). */
+export type PageTextLine = {
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  fragments: TextLineFragment[];
+};
+
+type TextFragment = {
+  x: number;
+  baseline: number;
+  width: number;
+  fontHeight: number;
+  text: string;
+};
+
+/**
+ * Reads a page's text with pdf.js and joins the positioned fragments into
+ * lines. Fragments on the same baseline merge unless a wide gap separates
+ * them, so side-by-side columns stay separate lines. Lines come back in
+ * reading order: top to bottom, then left to right.
+ */
+export async function getPageTextLines(pdfDoc: PDFDocumentProxy, pageIndex: number): Promise<PageTextLine[]> {
+  const page = await pdfDoc.getPage(pageIndex + 1);
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const [va, vb, vc, vd, ve, vf] = viewport.transform;
+
+  const fragments: TextFragment[] = [];
+  for (const item of content.items) {
+    if (!("str" in item) || !item.str.trim()) {
+      continue;
+    }
+    const [, , ic, id, ie, iff] = item.transform as number[];
+    fragments.push({
+      x: va * ie + vc * iff + ve,
+      baseline: vb * ie + vd * iff + vf,
+      width: item.width * Math.hypot(va, vb),
+      fontHeight: Math.max(1, Math.hypot(va * ic + vc * id, vb * ic + vd * id)),
+      text: item.str
+    });
+  }
+  fragments.sort((left, right) => left.baseline - right.baseline || left.x - right.x);
+
+  const lines: Array<TextFragment & { right: number; parts: TextLineFragment[] }> = [];
+  for (const fragment of fragments) {
+    const line = lines.find(
+      (candidate) =>
+        Math.abs(candidate.baseline - fragment.baseline) <= Math.min(candidate.fontHeight, fragment.fontHeight) * 0.5 &&
+        fragment.x - candidate.right <= fragment.fontHeight * 3 &&
+        fragment.x + fragment.width >= candidate.x
+    );
+    const part = { length: fragment.text.length, x: fragment.x, width: fragment.width };
+    if (!line) {
+      lines.push({ ...fragment, right: fragment.x + fragment.width, parts: [{ start: 0, ...part }] });
+      continue;
+    }
+    const gap = fragment.x - line.right;
+    if (gap > fragment.fontHeight * 0.2 && !line.text.endsWith(" ")) {
+      line.text += " ";
+    }
+    line.parts.push({ start: line.text.length, ...part });
+    line.text += fragment.text;
+    line.right = Math.max(line.right, fragment.x + fragment.width);
+    line.fontHeight = Math.max(line.fontHeight, fragment.fontHeight);
+  }
+
+  return lines
+    .map((line) => ({
+      pageIndex,
+      x: line.x,
+      // Fragments are placed by baseline; the box reaches up by the font
+      // height and a little below for descenders.
+      y: line.baseline - line.fontHeight,
+      width: line.right - line.x,
+      height: line.fontHeight * 1.25,
+      text: line.text.trimEnd(),
+      fragments: line.parts
+    }))
+    .sort((left, right) => left.y - right.y || left.x - right.x);
+}
+
+/**
+ * The horizontal extent of characters `start` to `end` of a line. Within a
+ * fragment, characters are assumed to share its width evenly.
+ */
+export function textLineSpan(line: PageTextLine, start: number, end: number): { x: number; width: number } {
+  const position = (offset: number) => {
+    const fragment =
+      line.fragments.find((item) => offset >= item.start && offset <= item.start + item.length) ??
+      line.fragments[line.fragments.length - 1];
+    if (!fragment || fragment.length === 0) {
+      return line.x;
+    }
+    const ratio = Math.min(1, Math.max(0, (offset - fragment.start) / fragment.length));
+    return fragment.x + fragment.width * ratio;
+  };
+  const left = position(start);
+  return { x: left, width: Math.max(0, position(end) - left) };
+}
+
+/** The character offset under `x`, the inverse of `textLineSpan`. */
+export function textLineOffsetAt(line: PageTextLine, x: number): number {
+  const fragment =
+    line.fragments.find((item) => x >= item.x && x <= item.x + item.width) ??
+    line.fragments.reduce<TextLineFragment | null>(
+      (closest, item) =>
+        !closest || Math.abs(item.x + item.width / 2 - x) < Math.abs(closest.x + closest.width / 2 - x) ? item : closest,
+      null
+    );
+  if (!fragment || fragment.width <= 0) {
+    return 0;
+  }
+  const ratio = Math.min(1, Math.max(0, (x - fragment.x) / fragment.width));
+  return Math.min(fragment.start + Math.floor(ratio * fragment.length), fragment.start + Math.max(0, fragment.length - 1));
+}
@@ -63,3 +63,41 @@ export async function getPdfPageMetrics(pdfDoc: PDFDocumentProxy): Promise<PageM
   }
   return metrics;
 }
+
+/**
+ * Renders one page off-screen, `width` pixels across, on white. For work
+ * that needs a page's pixels whether or not it's on screen.
+ */
+export async function renderPageCanvas(
+  pdfDoc: PDFDocumentProxy,
+  pageIndex: number,
+  width: number
+): Promise<HTMLCanvasElement | null> {
+  const page = await pdfDoc.getPage(pageIndex + 1);
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: width / base.width });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.floor(viewport.width));
+  canvas.height = Math.max(1, Math.floor(viewport.height));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return null;
+  }
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+}
+
+/**
+ * Draws one page small for the page manager, `width` CSS pixels across at
+ * device resolution, as a JPEG data URL.
+ */
+export async function renderPageThumbnail(
+  pdfDoc: PDFDocumentProxy,
+  pageIndex: number,
+  width: number
+): Promise<string | null> {
+  const canvas = await renderPageCanvas(pdfDoc, pageIndex, width * Math.min(window.devicePixelRatio || 1, 2));
+  return canvas ? canvas.toDataURL("image/jpeg", 0.72) : null;
+}
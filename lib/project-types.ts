@@ -1,7 +1,30 @@
-export type ViewerMode = "pan" | "highlight";
-export type DrawTool = "rectangle" | "line" | "highlight" | "freeDraw" | "text";
-export type DrawingTool = DrawTool | "reference";
+export type ViewerMode = "pan" | "highlight" | "checklist";
+export type DrawTool =
+  | "rectangle"
+  | "line"
+  | "highlight"
+  | "freeDraw"
+  | "text"
+  | "arrow"
+  | "ellipse"
+  | "check"
+  | "strike"
+  | "stamp";
+export type DrawingTool = DrawTool | "reference" | "glossary" | "crop";
 export type CounterType = "row" | "stitch";
+export type StrokeDash = "solid" | "dashed" | "dotted";
+// The tools that draw a stroke and so take a width, opacity and dash.
+export type StrokeTool = "rectangle" | "line" | "freeDraw" | "arrow" | "ellipse" | "strike";
+
+export const STROKE_TOOLS: StrokeTool[] = ["rectangle", "line", "freeDraw", "arrow", "ellipse", "strike"];
+
+export type StrokeStyle = {
+  width: number;
+  opacity: number;
+  dash: StrokeDash;
+};
+
+export type ToolStyles = Record<StrokeTool, StrokeStyle>;
 
 export type PageMetric = {
   width: number;
@@ -22,6 +45,30 @@ export type Annotation = {
   points?: Array<{ x: number; y: number }>;
   text?: string;
   fontSize?: number;
+  // Stroke tools only; absent on marks drawn before styles existed.
+  strokeWidth?: number;
+  opacity?: number;
+  dash?: StrokeDash;
+  // Stamps only: a chart symbol id, or a custom stamp's id with its `text`.
+  stamp?: string;
+  // Absent on marks drawn before layers existed; those sit on the bottom layer.
+  layerId?: string;
+};
+
+// A user's own chart stamp, drawn as its text in a chart cell.
+export type CustomStamp = {
+  id: string;
+  text: string;
+};
+
+// Layers are stored bottom to top: later layers draw over earlier ones.
+export type AnnotationLayer = {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  // Overrides the colour of every mark on the layer while set.
+  color?: string;
 };
 
 export type KnitCounter = {
@@ -32,12 +79,55 @@ export type KnitCounter = {
   type: CounterType;
   label: string;
   value: number;
+  // Repeat counters wrap back to 1 after this many rows/stitches and only
+  // advance linked counters when they roll over. Absent means a plain counter.
+  repeatLength?: number;
+  // Whole repeats completed so far (repeat counters only).
+  repeatCount?: number;
+  // Section goal: the count at which this counter is "done", the count it
+  // starts from, and an optional bookmark to jump to once it's reached.
+  target?: number;
+  startValue?: number;
+  targetAnchorId?: string;
+  // Docked in the on-screen HUD instead of sitting on its page. The page
+  // position is kept so unpinning puts it back where it was.
+  pinned?: boolean;
 };
 
+// One counter movement in the project's history log (stored in its own
+// Convex table, not the workspace). `delta` is in counter positions, so undo
+// stays correct even if the repeat length changes later.
+export type CounterEvent = {
+  id: string;
+  counterId: string;
+  batchId: string;
+  at: string;
+  delta: number;
+  value: number;
+  previousValue: number;
+  repeatCount?: number;
+  sourceCounterId?: string;
+  undone?: boolean;
+};
+
+export type KnitSession = {
+  id: string;
+  startedAt: string;
+  endedAt: string;
+};
+
+// How a link turns source ticks into target ticks: one for one, one target
+// tick per `ratio` source ticks ("every other row" is 2), or `multiplier`
+// target ticks per source tick (one row = 120 stitches).
+export type ConnectionMode = "each" | "ratio" | "multiplier";
+
 export type CounterConnection = {
   id: string;
   fromCounterId: string;
   toCounterId: string;
+  mode?: ConnectionMode;
+  ratio?: number;
+  multiplier?: number;
 };
 
 export type GaugeConversionDirection = "patternToObserved" | "observedToPattern";
@@ -68,6 +158,74 @@ export type ScrollAnchor = {
   yRatio: number;
 };
 
+// "At the same time" shaping: a reminder tied to a row counter that fires
+// every `every` rows from `startRow`, `times` times — or on explicit rows.
+export type ShapingRuleKind = "repeat" | "rows";
+
+export type ShapingRule = {
+  id: string;
+  counterId: string;
+  label: string;
+  kind: ShapingRuleKind;
+  startRow: number;
+  every: number;
+  times: number;
+  rows: number[];
+};
+
+// Pattern text lines tapped done in checklist mode. `counterId` names a row
+// counter whose steps check off (or back off) the following lines.
+export type ChecklistLine = {
+  id: string;
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+};
+
+export type ChecklistState = {
+  done: ChecklistLine[];
+  counterId: string | null;
+};
+
+// Which size the knitter is making: an index into "88 (96, 104, 112)" series,
+// 0 being the number outside the brackets. `visible` shows the highlights.
+export type SizeSelection = {
+  index: number | null;
+  visible: boolean;
+};
+
+// An abbreviation and what it means. A project's own glossary (usually read
+// from the pattern's abbreviations section) overrides the built-in one.
+export type GlossaryEntry = {
+  term: string;
+  definition: string;
+};
+
+// Quarter turns clockwise, applied after the crop.
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export const PAGE_ROTATIONS: PageRotation[] = [0, 90, 180, 270];
+
+// The part of a page to show, in page units of the unrotated page.
+export type PageCrop = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// How one page is shown. Everything placed on the page (counters, marks,
+// checklist lines) stays in unrotated, uncropped page units, so changing
+// this never moves them.
+export type PageTransform = {
+  pageIndex: number;
+  rotation: PageRotation;
+  crop?: PageCrop;
+};
+
 export type ProjectWorkspace = {
   zoom: number;
   annotations: Annotation[];
@@ -75,8 +233,19 @@ export type ProjectWorkspace = {
   connections: CounterConnection[];
   referenceCapture: ReferenceCapture | null;
   strokeColor: string;
+  // Last-used style per stroke tool, like `strokeColor`.
+  toolStyles: ToolStyles;
   calculator: GaugeCalculatorState;
   anchors: ScrollAnchor[];
+  shapingRules: ShapingRule[];
+  layers: AnnotationLayer[];
+  checklist: ChecklistState;
+  size: SizeSelection;
+  glossary: GlossaryEntry[];
+  // Page indexes folded out of the reading flow (ads, covers, other sizes).
+  hiddenPages: number[];
+  // Only pages shown other than as-is have an entry.
+  pageTransforms: PageTransform[];
 };
 
 export type ProjectStatus = "active" | "finished";
@@ -94,6 +263,7 @@ export type ProjectMetadata = {
   status?: ProjectStatus;
   finishedAt?: string;
   finishedNotes?: string;
+  knitTimeMs?: number;
 };
 
 export type PageLook = "normal" | "dimmed" | "inverted";
@@ -116,6 +286,9 @@ export type ProjectBackup = {
 export const THEME_KEY = "whichstitch-theme-v1";
 export const PAGE_LOOK_KEY = "whichstitch-page-look-v1";
 export const LINK_HINT_KEY = "whichstitch-link-hint-v1";
+// Local copy of the per-user key bindings so pedals work before sign-in resolves.
+export const KEY_BINDINGS_KEY = "whichstitch-key-bindings-v1";
+export const CUSTOM_STAMPS_KEY = "whichstitch-custom-stamps-v1";
 export const MIN_ZOOM = 0.5;
 export const MAX_ZOOM = 10;
 export const COUNTER_HITBOX_WIDTH = 150;
@@ -148,6 +321,25 @@ export function createDefaultGaugeCalculator(): GaugeCalculatorState {
   };
 }
 
+// Match the weights strokes were drawn at before they were adjustable.
+export function createDefaultToolStyles(): ToolStyles {
+  return {
+    rectangle: { width: 2, opacity: 1, dash: "solid" },
+    line: { width: 3, opacity: 1, dash: "solid" },
+    freeDraw: { width: 3.2, opacity: 1, dash: "solid" },
+    arrow: { width: 3, opacity: 1, dash: "solid" },
+    ellipse: { width: 2, opacity: 1, dash: "solid" },
+    // A strike-through sits over the text it crosses out, so it starts see-through.
+    strike: { width: 4, opacity: 0.7, dash: "solid" }
+  };
+}
+
+export const DEFAULT_LAYER_ID = "layer-notes";
+
+export function createDefaultLayers(): AnnotationLayer[] {
+  return [{ id: DEFAULT_LAYER_ID, name: "Notes", visible: true, locked: false }];
+}
+
 export function createDefaultWorkspace(): ProjectWorkspace {
   return {
     zoom: 1.1,
@@ -156,7 +348,15 @@ export function createDefaultWorkspace(): ProjectWorkspace {
     connections: [],
     referenceCapture: null,
     strokeColor: DEFAULT_STROKE_COLOR,
+    toolStyles: createDefaultToolStyles(),
     calculator: createDefaultGaugeCalculator(),
-    anchors: []
+    anchors: [],
+    shapingRules: [],
+    layers: createDefaultLayers(),
+    checklist: { done: [], counterId: null },
+    size: { index: null, visible: true },
+    glossary: [],
+    hiddenPages: [],
+    pageTransforms: []
   };
 }
@@ -0,0 +1,53 @@
+import type { Point, Rect } from "./annotation-geometry";
+import type { DrawTool } from "./project-types";
+
+// The kinds drawn from one end to the other rather than as a box.
+export function isSegmentKind(kind: DrawTool): boolean {
+  return kind === "line" || kind === "arrow" || kind === "strike";
+}
+
+/**
+ * Shaft end and head outline for an arrow from (x1, y1) to (x2, y2). The
+ * shaft stops short of the tip so a wide or dashed stroke doesn't poke
+ * through the point of the head.
+ */
+export function arrowGeometry(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  strokeWidth: number
+): { shaftEnd: Point; head: Point[] } {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  const size = Math.min(Math.max(10, strokeWidth * 3.5), length * 0.6);
+  if (length === 0) {
+    return { shaftEnd: { x: x2, y: y2 }, head: [] };
+  }
+  const ux = (x2 - x1) / length;
+  const uy = (y2 - y1) / length;
+  const baseX = x2 - ux * size;
+  const baseY = y2 - uy * size;
+  const halfWidth = size * 0.55;
+  return {
+    shaftEnd: { x: x2 - ux * size * 0.8, y: y2 - uy * size * 0.8 },
+    head: [
+      { x: x2, y: y2 },
+      { x: baseX - uy * halfWidth, y: baseY + ux * halfWidth },
+      { x: baseX + uy * halfWidth, y: baseY - ux * halfWidth }
+    ]
+  };
+}
+
+/** The three points of a tick drawn inside a box. */
+export function checkmarkPoints(box: Rect): Point[] {
+  return [
+    { x: box.x + box.width * 0.14, y: box.y + box.height * 0.55 },
+    { x: box.x + box.width * 0.4, y: box.y + box.height * 0.82 },
+    { x: box.x + box.width * 0.88, y: box.y + box.height * 0.18 }
+  ];
+}
+
+// A tick's stroke grows with its box so resized ticks keep their weight.
+export function checkmarkStrokeWidth(box: Rect): number {
+  return Math.max(2, Math.min(box.width, box.height) * 0.14);
+}
@@ -0,0 +1,78 @@
+import { counterPosition } from "./counters";
+import type { KnitCounter, ShapingRule } from "./project-types";
+
+export type ShapingEvent = {
+  rule: ShapingRule;
+  row: number;
+  // 1-based: "decrease 3 of 8".
+  occurrence: number;
+  total: number;
+};
+
+export type UpcomingShapingEvent = ShapingEvent & {
+  counter: KnitCounter;
+  rowsAway: number;
+};
+
+/** Every row a rule fires on, ascending. */
+export function shapingRuleRows(rule: ShapingRule): number[] {
+  if (rule.kind === "rows") {
+    const rows = rule.rows.filter((row) => Number.isInteger(row) && row > 0);
+    return Array.from(new Set(rows)).sort((a, b) => a - b);
+  }
+  const every = Math.max(1, Math.floor(rule.every));
+  const times = Math.max(0, Math.floor(rule.times));
+  return Array.from({ length: times }, (_, index) => rule.startRow + index * every);
+}
+
+/** What the rules attached to a counter ask for on one row, in rule order. */
+export function shapingDueOnRow(rules: ShapingRule[], counterId: string, row: number): ShapingEvent[] {
+  const due: ShapingEvent[] = [];
+  for (const rule of rules) {
+    if (rule.counterId !== counterId) {
+      continue;
+    }
+    const rows = shapingRuleRows(rule);
+    const index = rows.indexOf(row);
+    if (index >= 0) {
+      due.push({ rule, row, occurrence: index + 1, total: rows.length });
+    }
+  }
+  return due;
+}
+
+/**
+ * Events from each counter's current row onward, soonest first. Rows are
+ * compared on counter position, so a rule on a repeat counter counts total
+ * rows rather than the row within the repeat.
+ */
+export function upcomingShapingEvents(
+  rules: ShapingRule[],
+  counters: KnitCounter[],
+  limit = 12
+): UpcomingShapingEvent[] {
+  const counterById = new Map(counters.map((counter) => [counter.id, counter]));
+  const events: UpcomingShapingEvent[] = [];
+  for (const rule of rules) {
+    const counter = counterById.get(rule.counterId);
+    if (!counter) {
+      continue;
+    }
+    const current = counterPosition(counter);
+    const rows = shapingRuleRows(rule);
+    rows.forEach((row, index) => {
+      if (row >= current) {
+        events.push({ rule, row, occurrence: index + 1, total: rows.length, counter, rowsAway: row - current });
+      }
+    });
+  }
+  return events.sort((a, b) => a.rowsAway - b.rowsAway || a.row - b.row).slice(0, limit);
+}
+
+/** Parses "30, 42 44" style row lists; ignores anything that isn't a row number. */
+export function parseShapingRows(input: string): number[] {
+  return input
+    .split(/[\s,;]+/)
+    .map((part) => Number(part))
+    .filter((row) => Number.isInteger(row) && row > 0);
+}
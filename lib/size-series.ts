@@ -0,0 +1,44 @@
+// One number in a size series, with its character range in the line.
+export type SizeValue = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+// "88 (96, 104, 112)": the first size's value, then the others in brackets.
+// Sizes a count doesn't apply to are often written as a dash. The first value
+// may follow a stitch abbreviation ("k2 (3, 4)"), just not another number.
+const VALUE = String.raw`(?:\d+(?:[./]\d+)?[½¼¾]?|[½¼¾]|[-–—])`;
+const SERIES = new RegExp(
+  String.raw`(?<![\d.])(${VALUE})(?:\s*(?:"|''|in|cm|mm|sts?))?\s*\(\s*(${VALUE}(?:\s*[,;]\s*${VALUE})*)\s*\)`,
+  "g"
+);
+const VALUE_IN_LIST = new RegExp(VALUE, "g");
+
+/**
+ * Every size series in a line of pattern text, as the values for each size
+ * in order. Brackets holding anything but numbers ("(RS)", "(k2, p2)") are
+ * skipped.
+ */
+export function findSizeSeries(text: string): SizeValue[][] {
+  const series: SizeValue[][] = [];
+  for (const match of text.matchAll(SERIES)) {
+    const matchStart = match.index ?? 0;
+    const first = match[1];
+    const values: SizeValue[] = [{ text: first, start: matchStart, end: matchStart + first.length }];
+    const list = match[2];
+    const listStart = matchStart + match[0].lastIndexOf(list);
+    for (const value of list.matchAll(VALUE_IN_LIST)) {
+      const start = listStart + (value.index ?? 0);
+      values.push({ text: value[0], start, end: start + value[0].length });
+    }
+    series.push(values);
+  }
+  return series;
+}
+
+/** The value for one size, or null when the series doesn't reach it or skips it. */
+export function valueForSize(series: SizeValue[], sizeIndex: number): SizeValue | null {
+  const value = series[sizeIndex];
+  return value && /\d|[½¼¾]/.test(value.text) ? value : null;
+}
@@ -0,0 +1,25 @@
+import type { Annotation, StrokeDash, StrokeStyle } from "./project-types";
+
+/** The style fields a new mark takes from its tool's current style. */
+export function annotationStrokeFields(style: StrokeStyle): Pick<Annotation, "strokeWidth" | "opacity" | "dash"> {
+  return { strokeWidth: style.width, opacity: style.opacity, dash: style.dash };
+}
+
+/** Dash and gap lengths for a dash style, scaled to the stroke width. */
+export function strokeDashPattern(dash: StrokeDash | undefined, width: number): number[] {
+  switch (dash) {
+    case "dashed":
+      return [width * 3, width * 2];
+    case "dotted":
+      // Zero-length dashes with round caps draw as dots.
+      return [0, width * 2];
+    default:
+      return [];
+  }
+}
+
+/** SVG `stroke-dasharray` for a dash style, scaled to the stroke width. */
+export function strokeDashArray(dash: StrokeDash | undefined, width: number): string | undefined {
+  const pattern = strokeDashPattern(dash, width);
+  return pattern.length > 0 ? pattern.join(" ") : undefined;
+}
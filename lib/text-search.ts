@@ -0,0 +1,53 @@
+import { textLineSpan, type PageTextLine } from "./pdf-text";
+
+export type SearchHit = {
+  id: string;
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  before: string;
+  match: string;
+  after: string;
+};
+
+const CONTEXT_CHARS = 32;
+export const MAX_SEARCH_HITS = 500;
+
+/**
+ * Case-insensitive matches of `query` in reading order. Runs of spaces are
+ * treated as one, since PDF text often spaces words unevenly. Matches don't
+ * cross line breaks.
+ */
+export function searchPageText(lines: PageTextLine[], query: string): SearchHit[] {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return [];
+  }
+  const pattern = new RegExp(words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("\\s+"), "gi");
+
+  const hits: SearchHit[] = [];
+  for (const line of lines) {
+    for (const match of line.text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const span = textLineSpan(line, start, end);
+      hits.push({
+        id: `${line.pageIndex}:${Math.round(line.x)}:${Math.round(line.y)}:${start}`,
+        pageIndex: line.pageIndex,
+        x: span.x,
+        y: line.y,
+        width: span.width,
+        height: line.height,
+        before: (start > CONTEXT_CHARS ? "…" : "") + line.text.slice(Math.max(0, start - CONTEXT_CHARS), start),
+        match: match[0],
+        after: line.text.slice(end, end + CONTEXT_CHARS) + (end + CONTEXT_CHARS < line.text.length ? "…" : "")
+      });
+      if (hits.length >= MAX_SEARCH_HITS) {
+        return hits;
+      }
+    }
+  }
+  return hits;
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { normalizeCustomStamps } from "./chart-symbols";
+import { CUSTOM_STAMPS_KEY, type CustomStamp } from "./project-types";
+
+/**
+ * The user's custom chart stamps, kept on their account like key bindings,
+ * with a localStorage copy so the palette fills in before the account loads.
+ */
+export function useCustomStamps() {
+  const stored = useQuery(api.preferences.get);
+  const saveCustomStamps = useMutation(api.preferences.setCustomStamps);
+  const [stamps, setStampsState] = useState<CustomStamp[]>([]);
+
+  useEffect(() => {
+    try {
+      const cached = window.localStorage.getItem(CUSTOM_STAMPS_KEY);
+      if (cached) {
+        setStampsState(normalizeCustomStamps(JSON.parse(cached)));
+      }
+    } catch {
+      // A corrupt cache just starts from an empty set.
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!stored?.customStamps) {
+      return;
+    }
+    const next = normalizeCustomStamps(stored.customStamps);
+    setStampsState(next);
+    window.localStorage.setItem(CUSTOM_STAMPS_KEY, JSON.stringify(next));
+  }, [stored]);
+
+  const setStamps = useCallback(
+    (next: CustomStamp[]) => {
+      setStampsState(next);
+      window.localStorage.setItem(CUSTOM_STAMPS_KEY, JSON.stringify(next));
+      void saveCustomStamps({ customStamps: next }).catch(() => undefined);
+    },
+    [saveCustomStamps]
+  );
+
+  return { stamps, setStamps };
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { DEFAULT_KEY_BINDINGS, normalizeKeyBindings, type KeyBindings } from "./key-bindings";
+import { KEY_BINDINGS_KEY } from "./project-types";
+
+/**
+ * Key bindings saved to the user's account, with a localStorage copy so they
+ * apply immediately (and offline) before the account copy arrives.
+ */
+export function useKeyBindings() {
+  const stored = useQuery(api.preferences.get);
+  const saveKeyBindings = useMutation(api.preferences.setKeyBindings);
+  const [bindings, setBindingsState] = useState<KeyBindings>(DEFAULT_KEY_BINDINGS);
+
+  useEffect(() => {
+    try {
+      const cached = window.localStorage.getItem(KEY_BINDINGS_KEY);
+      if (cached) {
+        setBindingsState(normalizeKeyBindings(JSON.parse(cached)));
+      }
+    } catch {
+      // A corrupt cache just falls back to the defaults.
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!stored?.keyBindings) {
+      return;
+    }
+    const next = normalizeKeyBindings(stored.keyBindings);
+    setBindingsState(next);
+    window.localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(next));
+  }, [stored]);
+
+  const setBindings = useCallback(
+    (next: KeyBindings) => {
+      setBindingsState(next);
+      window.localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(next));
+      void saveKeyBindings({ keyBindings: next }).catch(() => undefined);
+    },
+    [saveKeyBindings]
+  );
+
+  return { bindings, setBindings };
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ProjectWorkspace } from "./project-types";
+
+// The parts of a workspace that editing changes. Zoom and the pen colour are
+// view preferences and stay out of the history.
+export type EditableWorkspace = Pick<
+  ProjectWorkspace,
+  | "annotations"
+  | "counters"
+  | "connections"
+  | "anchors"
+  | "referenceCapture"
+  | "calculator"
+  | "shapingRules"
+  | "layers"
+  | "checklist"
+  | "glossary"
+  | "hiddenPages"
+  | "pageTransforms"
+>;
+
+const EDITABLE_KEYS: Array<keyof EditableWorkspace> = [
+  "annotations",
+  "counters",
+  "connections",
+  "anchors",
+  "referenceCapture",
+  "calculator",
+  "shapingRules",
+  "layers",
+  "checklist",
+  "glossary",
+  "hiddenPages",
+  "pageTransforms"
+];
+
+export const HISTORY_LIMIT = 100;
+
+// Changes closer together than this (a drag, a burst of taps, typing into the
+// calculator) become one undo step.
+const COALESCE_MS = 500;
+
+function sameWorkspace(left: EditableWorkspace, right: EditableWorkspace): boolean {
+  return EDITABLE_KEYS.every((key) => left[key] === right[key]);
+}
+
+/**
+ * Snapshot undo/redo over the editable workspace. State setters replace
+ * arrays rather than mutating them, so a snapshot is just the current set of
+ * references and comparing them is enough to spot a change.
+ */
+export function useWorkspaceHistory(current: EditableWorkspace, apply: (snapshot: EditableWorkspace) => void) {
+  const baselineRef = useRef<EditableWorkspace | null>(null);
+  const latestRef = useRef(current);
+  const undoStackRef = useRef<EditableWorkspace[]>([]);
+  const redoStackRef = useRef<EditableWorkspace[]>([]);
+  const commitTimeoutRef = useRef<number | null>(null);
+  const [depth, setDepth] = useState({ undo: 0, redo: 0 });
+
+  latestRef.current = current;
+
+  const syncDepth = useCallback(() => {
+    setDepth({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+
+  const commit = useCallback(() => {
+    if (commitTimeoutRef.current !== null) {
+      window.clearTimeout(commitTimeoutRef.current);
+      commitTimeoutRef.current = null;
+    }
+    const baseline = baselineRef.current;
+    const latest = latestRef.current;
+    if (!baseline || sameWorkspace(baseline, latest)) {
+      return;
+    }
+    undoStackRef.current = [...undoStackRef.current, baseline].slice(-HISTORY_LIMIT);
+    redoStackRef.current = [];
+    baselineRef.current = latest;
+    syncDepth();
+  }, [syncDepth]);
+
+  useEffect(() => {
+    const baseline = baselineRef.current;
+    if (!baseline) {
+      baselineRef.current = current;
+      return;
+    }
+    if (sameWorkspace(baseline, current)) {
+      return;
+    }
+    if (commitTimeoutRef.current !== null) {
+      window.clearTimeout(commitTimeoutRef.current);
+    }
+    commitTimeoutRef.current = window.setTimeout(commit, COALESCE_MS);
+  }, [current, commit]);
+
+  useEffect(() => {
+    return () => {
+      if (commitTimeoutRef.current !== null) {
+        window.clearTimeout(commitTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const undo = useCallback((): boolean => {
+    commit();
+    const previous = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!previous) {
+      return false;
+    }
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    redoStackRef.current = [...redoStackRef.current, latestRef.current];
+    baselineRef.current = previous;
+    syncDepth();
+    apply(previous);
+    return true;
+  }, [apply, commit, syncDepth]);
+
+  const redo = useCallback((): boolean => {
+    commit();
+    const next = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!next) {
+      return false;
+    }
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    undoStackRef.current = [...undoStackRef.current, latestRef.current].slice(-HISTORY_LIMIT);
+    baselineRef.current = next;
+    syncDepth();
+    apply(next);
+    return true;
+  }, [apply, commit, syncDepth]);
+
+  /** Forgets all history; the next workspace seen becomes the starting point. */
+  const reset = useCallback(() => {
+    if (commitTimeoutRef.current !== null) {
+      window.clearTimeout(commitTimeoutRef.current);
+      commitTimeoutRef.current = null;
+    }
+    baselineRef.current = null;
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncDepth();
+  }, [syncDepth]);
+
+  return {
+    undo,
+    redo,
+    reset,
+    // A change still waiting to be coalesced counts as undoable.
+    canUndo: depth.undo > 0 || (baselineRef.current !== null && !sameWorkspace(baselineRef.current, current)),
+    canRedo: depth.redo > 0
+  };
+}
@@ -1,6 +1,30 @@
-import { createDefaultWorkspace, type ProjectWorkspace } from "./project-types";
+import {
+  createDefaultWorkspace,
+  PAGE_ROTATIONS,
+  STROKE_TOOLS,
+  type ProjectWorkspace,
+  type StrokeStyle,
+  type ToolStyles
+} from "./project-types";
 
-export function normalizeWorkspace(workspace: Partial<ProjectWorkspace> | null | undefined): ProjectWorkspace {
+function normalizeStrokeStyle(style: Partial<StrokeStyle> | undefined, fallback: StrokeStyle): StrokeStyle {
+  return {
+    width: typeof style?.width === "number" && style.width > 0 ? style.width : fallback.width,
+    opacity: typeof style?.opacity === "number" ? Math.min(1, Math.max(0.1, style.opacity)) : fallback.opacity,
+    dash: style?.dash === "dashed" || style?.dash === "dotted" || style?.dash === "solid" ? style.dash : fallback.dash
+  };
+}
+
+function normalizeToolStyles(styles: Partial<ToolStyles> | undefined, fallback: ToolStyles): ToolStyles {
+  return Object.fromEntries(
+    STROKE_TOOLS.map((tool) => [tool, normalizeStrokeStyle(styles?.[tool], fallback[tool])])
+  ) as ToolStyles;
+}
+
+// Saved workspaces may predate some fields, and some tools' styles.
+type StoredWorkspace = Partial<Omit<ProjectWorkspace, "toolStyles">> & { toolStyles?: Partial<ToolStyles> };
+
+export function normalizeWorkspace(workspace: StoredWorkspace | null | undefined): ProjectWorkspace {
   const fallback = createDefaultWorkspace();
   return {
     zoom: typeof workspace?.zoom === "number" ? workspace.zoom : fallback.zoom,
@@ -9,7 +33,36 @@ export function normalizeWorkspace(workspace: Partial<ProjectWorkspace> | null |
     connections: Array.isArray(workspace?.connections) ? workspace.connections : fallback.connections,
     referenceCapture: workspace?.referenceCapture ?? fallback.referenceCapture,
     strokeColor: typeof workspace?.strokeColor === "string" ? workspace.strokeColor : fallback.strokeColor,
+    toolStyles: normalizeToolStyles(workspace?.toolStyles, fallback.toolStyles),
     anchors: Array.isArray(workspace?.anchors) ? workspace.anchors : fallback.anchors,
+    shapingRules: Array.isArray(workspace?.shapingRules) ? workspace.shapingRules : fallback.shapingRules,
+    layers: Array.isArray(workspace?.layers) && workspace.layers.length > 0 ? workspace.layers : fallback.layers,
+    checklist: Array.isArray(workspace?.checklist?.done)
+      ? {
+          done: workspace.checklist.done,
+          counterId: typeof workspace.checklist.counterId === "string" ? workspace.checklist.counterId : null
+        }
+      : fallback.checklist,
+    size: {
+      index:
+        typeof workspace?.size?.index === "number" && workspace.size.index >= 0
+          ? Math.floor(workspace.size.index)
+          : fallback.size.index,
+      visible: typeof workspace?.size?.visible === "boolean" ? workspace.size.visible : fallback.size.visible
+    },
+    glossary: Array.isArray(workspace?.glossary) ? workspace.glossary : fallback.glossary,
+    hiddenPages: Array.isArray(workspace?.hiddenPages)
+      ? workspace.hiddenPages.filter((pageIndex) => Number.isInteger(pageIndex) && pageIndex >= 0)
+      : fallback.hiddenPages,
+    pageTransforms: Array.isArray(workspace?.pageTransforms)
+      ? workspace.pageTransforms.filter(
+          (transform) =>
+            Number.isInteger(transform.pageIndex) &&
+            transform.pageIndex >= 0 &&
+            PAGE_ROTATIONS.includes(transform.rotation) &&
+            (!transform.crop || (transform.crop.width > 0 && transform.crop.height > 0))
+        )
+      : fallback.pageTransforms,
     calculator: {
       patternRowsPerInch:
         typeof workspace?.calculator?.patternRowsPerInch === "string"